@@ -0,0 +1,281 @@
+/**
+ * Writers for the archive formats of the `Archive` macro. They produce
+ * reproducible archives: the output depends on the entries only.
+ */
+
+import type { OutFsNodeKind } from "./mod.tsx";
+import { deflateRawSync } from "./deps.ts";
+
+/**
+ * An entry of an archive, in the deterministic order of the archive.
+ */
+export type ArchiveEntry = {
+  /**
+   * The path relative to the root of the OutFs, without a leading slash.
+   */
+  path: string;
+  kind: OutFsNodeKind;
+  /**
+   * The contents of a file, or the rendered target of a symlink.
+   */
+  contents: Uint8Array;
+  /**
+   * The Unix permission mode.
+   */
+  permissions: number;
+  /**
+   * The modification time, in seconds since the Unix epoch.
+   */
+  mtime: number;
+};
+
+/**
+ * Concatenate several byte arrays.
+ */
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(
+    chunks.reduce((sum, chunk) => sum + chunk.length, 0),
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+/**
+ * Internal function: create a single 512 byte header of a ustar archive.
+ */
+function tarHeader(
+  name: string,
+  mode: number,
+  size: number,
+  mtime: number,
+  typeflag: string,
+  linkname: string,
+): Uint8Array {
+  const header = new Uint8Array(512);
+  const encoder = new TextEncoder();
+  const put = (offset: number, length: number, value: string) => {
+    header.set(encoder.encode(value).slice(0, length), offset);
+  };
+  const putOctal = (offset: number, length: number, value: number) => {
+    put(offset, length, `${value.toString(8).padStart(length - 1, "0")}\0`);
+  };
+
+  put(0, 100, name);
+  putOctal(100, 8, mode);
+  putOctal(108, 8, 0);
+  putOctal(116, 8, 0);
+  putOctal(124, 12, size);
+  putOctal(136, 12, mtime);
+  put(148, 8, "        ");
+  put(156, 1, typeflag);
+  put(157, 100, linkname);
+  put(257, 6, "ustar\0");
+  put(263, 2, "00");
+
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  put(148, 8, `${checksum.toString(8).padStart(6, "0")}\0 `);
+  return header;
+}
+
+/**
+ * Internal function: pad data to a multiple of 512 bytes.
+ */
+function tarPad(data: Uint8Array): Uint8Array {
+  const padded = new Uint8Array(Math.ceil(data.length / 512) * 512);
+  padded.set(data);
+  return padded;
+}
+
+/**
+ * Create a ustar archive of the given entries. Paths that do not fit the ustar
+ * header are stored in pax extended headers.
+ */
+export function tarArchive(entries: ArchiveEntry[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+
+  for (const { path, kind, contents, permissions, mtime } of entries) {
+    const name = kind === "dir" ? `${path}/` : path;
+    const linkname = kind === "symlink"
+      ? new TextDecoder().decode(contents)
+      : "";
+
+    const records: string[] = [];
+    if (encoder.encode(name).length > 100) {
+      records.push(paxRecord("path", name));
+    }
+    if (encoder.encode(linkname).length > 100) {
+      records.push(paxRecord("linkpath", linkname));
+    }
+    if (records.length > 0) {
+      const pax = encoder.encode(records.join(""));
+      chunks.push(tarHeader("PaxHeader", 0o644, pax.length, mtime, "x", ""));
+      chunks.push(tarPad(pax));
+    }
+
+    const data = kind === "file" ? contents : new Uint8Array();
+    chunks.push(
+      tarHeader(
+        name,
+        permissions,
+        data.length,
+        mtime,
+        kind === "dir" ? "5" : (kind === "symlink" ? "2" : "0"),
+        linkname,
+      ),
+    );
+    chunks.push(tarPad(data));
+  }
+
+  // Two empty blocks mark the end of the archive.
+  chunks.push(new Uint8Array(1024));
+  return concatBytes(chunks);
+}
+
+/**
+ * Internal function: create a pax extended header record, which is prefixed
+ * by its own length in bytes.
+ */
+function paxRecord(key: string, value: string): string {
+  const rest = ` ${key}=${value}\n`;
+  const restLength = new TextEncoder().encode(rest).length;
+  let length = restLength + 1;
+  while (`${length}`.length + restLength !== length) {
+    length += 1;
+  }
+  return `${length}${rest}`;
+}
+
+/**
+ * The lookup table for computing CRC-32 checksums, one entry per byte value.
+ */
+const crcTable = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Compute the CRC-32 checksum of some data, as used by zip archives.
+ */
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) {
+    crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * The maximum number of entries of a zip archive without the zip64 extension.
+ */
+const zipMaxEntries = 0xffff;
+
+/**
+ * The maximum size in bytes of a zip archive (and of each file in it) without
+ * the zip64 extension.
+ */
+const zipMaxSize = 0xffffffff;
+
+/**
+ * Create a zip archive of the given entries. Files are deflated, directories
+ * and symlinks are stored.
+ *
+ * The zip64 extension is not supported, so this returns `null` if there are
+ * more than {@linkcode zipMaxEntries} entries, or if the archive or any file
+ * would be larger than {@linkcode zipMaxSize} bytes.
+ */
+export function zipArchive(entries: ArchiveEntry[]): Uint8Array | null {
+  if (entries.length > zipMaxEntries) {
+    return null;
+  }
+
+  const localChunks: Uint8Array[] = [];
+  const centralChunks: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const { path, kind, contents, permissions, mtime } of entries) {
+    if (contents.length > zipMaxSize) {
+      return null;
+    }
+
+    // Zip stores local time in the MS-DOS format, which starts at 1980.
+    const date = new Date(Math.max(mtime, 315532800) * 1000);
+    const dosTime = (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) |
+      (date.getUTCSeconds() >> 1);
+    const dosDate = ((date.getUTCFullYear() - 1980) << 9) |
+      ((date.getUTCMonth() + 1) << 5) | date.getUTCDate();
+
+    const name = new TextEncoder().encode(kind === "dir" ? `${path}/` : path);
+    const deflate = kind === "file";
+    const data = deflate ? new Uint8Array(deflateRawSync(contents)) : contents;
+    const crc = crc32(contents);
+    const unixMode = permissions |
+      (kind === "dir" ? 0o40000 : (kind === "symlink" ? 0o120000 : 0o100000));
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true);
+    localView.setUint16(6, 0x0800, true); // UTF-8 names
+    localView.setUint16(8, deflate ? 8 : 0, true);
+    localView.setUint16(10, dosTime, true);
+    localView.setUint16(12, dosDate, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, contents.length, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, (3 << 8) | 20, true); // Made by Unix
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, deflate ? 8 : 0, true);
+    centralView.setUint16(12, dosTime, true);
+    centralView.setUint16(14, dosDate, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, data.length, true);
+    centralView.setUint32(24, contents.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(
+      38,
+      ((unixMode << 16) | (kind === "dir" ? 0x10 : 0)) >>> 0,
+      true,
+    );
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    localChunks.push(local, data);
+    centralChunks.push(central);
+    offset += local.length + data.length;
+  }
+
+  const centralDirectory = concatBytes(centralChunks);
+  if (offset + centralDirectory.length > zipMaxSize) {
+    return null;
+  }
+
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralDirectory.length, true);
+  endView.setUint32(16, offset, true);
+
+  return concatBytes([...localChunks, centralDirectory, end]);
+}
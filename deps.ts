@@ -1,5 +1,13 @@
 export * from "../macromania/mod.ts";
 export * from "../macromania_logger/mod.tsx";
-export * from "../macromania_fs/mod.tsx";
 export * as Colors from "https://deno.land/std@0.204.0/fmt/colors.ts";
-export { join } from "https://deno.land/std@0.214.0/path/mod.ts";
\ No newline at end of file
+export {
+  basename,
+  globToRegExp,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+} from "https://deno.land/std@0.214.0/path/mod.ts";
+export { createHash } from "node:crypto";
+export { brotliCompressSync, deflateRawSync, gzipSync } from "node:zlib";
@@ -1,2 +1,3 @@
 export { assertEquals } from "https://deno.land/std@0.213.0/assert/mod.ts";
-export { assertFs } from "../assert_files/mod.ts";
\ No newline at end of file
+export { assertFs } from "../assert_files/mod.ts";
+export { brotliDecompressSync, gunzipSync } from "node:zlib";
\ No newline at end of file
@@ -1,5 +1,7 @@
 import {
+  Config,
   Context,
+  createConfigOptions,
   createLogger,
   createSubstate,
   DebuggingInformation,
@@ -8,34 +10,220 @@ import {
   expressions,
   styleDebuggingInformation,
 } from "./deps.ts";
-import { EmptyDir, EnsureDir, EnsureNot, WriteTextFile } from "./deps.ts";
-import { Colors, join } from "./deps.ts";
+import {
+  basename,
+  brotliCompressSync,
+  Colors,
+  createHash,
+  globToRegExp,
+  gzipSync,
+  isAbsolute,
+  join,
+  relative,
+  resolve,
+} from "./deps.ts";
+import { ArchiveEntry, tarArchive, zipArchive } from "./archive.ts";
 
 const l = createLogger("LoggerOutFs");
 const ConfigMacro = l.ConfigMacro;
 export { ConfigMacro as LoggerOutFs };
 
+/**
+ * Configuration options for the OutFs macros.
+ */
+export type OutFsConfig = {
+  /**
+   * The (platform-dependent) path where the root of the OutFs is "mounted" in
+   * the real file system. Relative paths are resolved against the cwd of the
+   * process. The default {@linkcode diskBackend} creates the directory if it
+   * does not exist yet.
+   *
+   * Defaults to the cwd of the process.
+   */
+  mount?: string;
+  /**
+   * The {@linkcode OutFsBackend} that performs the actual writes.
+   *
+   * Defaults to the {@linkcode diskBackend}.
+   */
+  backend?: OutFsBackend;
+  /**
+   * Whether to keep the contents of all files in memory after writing them,
+   * so that other macros can access them via {@linkcode outReadFile}.
+   *
+   * Defaults to `false`.
+   */
+  retainContents?: boolean;
+  /**
+   * Whether to warn about names of files and directories that are valid but
+   * cause trouble on some file systems: names that differ only in
+   * capitalization from another name in the same directory, names reserved by
+   * Windows, and names containing characters that some file systems forbid.
+   *
+   * Defaults to `false`.
+   */
+  portability?: boolean;
+  /**
+   * Which compressed siblings (`foo.html.gz`, `foo.html.br`) to write next to
+   * files, see {@linkcode PrecompressOptions}. `null` disables precompression.
+   *
+   * Defaults to `null`.
+   */
+  precompress?: PrecompressOptions | null;
+  /**
+   * A fixed modification time to stamp every file and directory with after
+   * writing it (similar to `SOURCE_DATE_EPOCH`), for reproducible builds.
+   * Individual `File` and `Dir` macros can override this. `null` leaves the
+   * modification times to the backend.
+   *
+   * Defaults to `null`.
+   */
+  mtime?: Date | null;
+};
+
+type OutFsConfigDefaults = {
+  mount: string;
+  backend: OutFsBackend;
+  retainContents: boolean;
+  portability: boolean;
+  precompress: PrecompressOptions | null;
+  mtime: Date | null;
+};
+
+const [getConfig, ConfigOutFs] = createConfigOptions<
+  OutFsConfig,
+  OutFsConfigDefaults
+>(
+  "ConfigOutFs",
+  () => ({
+    mount: Deno.cwd(),
+    backend: diskBackend,
+    retainContents: false,
+    portability: false,
+    precompress: null,
+    mtime: null,
+  }),
+  (oldValue, update) => {
+    const newValue = { ...oldValue };
+    if (update.mount !== undefined) {
+      newValue.mount = update.mount;
+    }
+    if (update.backend !== undefined) {
+      newValue.backend = update.backend;
+    }
+    if (update.retainContents !== undefined) {
+      newValue.retainContents = update.retainContents;
+    }
+    if (update.portability !== undefined) {
+      newValue.portability = update.portability;
+    }
+    if (update.precompress !== undefined) {
+      newValue.precompress = update.precompress;
+    }
+    if (update.mtime !== undefined) {
+      newValue.mtime = update.mtime;
+    }
+    return newValue;
+  },
+);
+export { ConfigOutFs };
+
+/**
+ * Options for writing precompressed siblings of files, for static hosts that
+ * serve `foo.html.gz` or `foo.html.br` in place of `foo.html` when present.
+ * The siblings are created in the OutFs like any other file.
+ */
+export type PrecompressOptions = {
+  /**
+   * Whether to write a gzip-compressed sibling with the extension `.gz`.
+   *
+   * Defaults to `true`.
+   */
+  gzip?: boolean;
+  /**
+   * Whether to write a brotli-compressed sibling with the extension `.br`.
+   *
+   * Defaults to `true`.
+   */
+  brotli?: boolean;
+  /**
+   * Files with fewer bytes than this are not compressed.
+   *
+   * Defaults to `1024`.
+   */
+  minSize?: number;
+  /**
+   * Only files whose names end with one of these extensions (including the
+   * dot) are compressed.
+   *
+   * Defaults to `[".html", ".css", ".js", ".mjs", ".json", ".svg", ".txt",
+   * ".xml"]`.
+   */
+  extensions?: string[];
+};
+
 /**
  * The outfs macros an in-memory hierarchy of paths, the *OutFs*.
- * Each Node in the OutFs is a directory, or a leaf file (we do not store the
- * contents in memory).
+ * Each Node in the OutFs is a directory, or a leaf file (we store the contents
+ * in memory only if configured to do so).
  * For each node, we track the macro that created it for debugging purposes.
  */
 type OutFsNode = {
   source: DebuggingInformation;
   node: OutFsNode_;
+  /**
+   * The attributes to apply to the node after writing it, if any.
+   */
+  attributes?: OutFsAttributes;
+  /**
+   * The mode of the macro that created the node, if it had one.
+   */
+  mode?: Mode;
 };
 
 type OutFsNode_ =
   | OutFile
-  | OutDir;
+  | OutDir
+  | OutSymlink;
 
 /**
- * We store no data with files in the OutFs, we merrely track their existence.
+ * For files, we track their size and hash once their contents have been
+ * evaluated, and optionally retain the contents themselves.
  */
-type OutFile = null;
+type OutFile = {
+  /**
+   * The size of the file in bytes, or `null` while its contents are still
+   * being evaluated.
+   */
+  size: number | null;
+  /**
+   * The hex-encoded SHA-256 hash of the contents of the file, or `null` while
+   * its contents are still being evaluated.
+   */
+  hash: string | null;
+  /**
+   * The contents of the file, or `null` if they are still being evaluated or
+   * are not being retained. Strings for `File`s, bytes for `BinaryFile`s.
+   */
+  contents: string | Uint8Array | null;
+  /**
+   * For files assembled from the contributions of several
+   * {@linkcode Contribute} macros, the bookkeeping for those contributions.
+   * `null` for all other files.
+   */
+  contributed: Contributed | null;
+  /**
+   * Whether the file replaced an existing node (via mode `"assertive"`).
+   */
+  overwrote: boolean;
+  /**
+   * The macro that created the file, as reported to hooks once the file is
+   * written.
+   */
+  source: DebuggingInformation;
+};
 function isOutFile(n: OutFsNode_): n is OutFile {
-  return n === null;
+  return !isOutDir(n) && !isOutSymlink(n);
 }
 
 /**
@@ -43,7 +231,51 @@ function isOutFile(n: OutFsNode_): n is OutFile {
  */
 type OutDir = Map<string, OutFsNode>;
 function isOutDir(n: OutFsNode_): n is OutDir {
-  return n !== null;
+  return n instanceof Map;
+}
+
+/**
+ * A symlink points to a path in the OutFs. Relative targets are resolved from
+ * the directory that contains the symlink.
+ */
+type OutSymlink = {
+  target: OutFsPath;
+};
+function isOutSymlink(n: OutFsNode_): n is OutSymlink {
+  return !isOutDir(n) && "target" in n;
+}
+
+/**
+ * The different kinds of nodes in the OutFs.
+ */
+export type OutFsNodeKind = "file" | "dir" | "symlink";
+
+function nodeKind(n: OutFsNode_): OutFsNodeKind {
+  if (isOutDir(n)) {
+    return "dir";
+  } else if (isOutSymlink(n)) {
+    return "symlink";
+  } else {
+    return "file";
+  }
+}
+
+/**
+ * Internal function: compute the absolute components of the target of a
+ * symlink that resides in the directory at the absolute components `dir`.
+ * Returns `null` if the target would leave the root of the OutFs.
+ */
+function symlinkTarget(dir: string[], link: OutSymlink): string[] | null {
+  if (link.target.relativity === -1) {
+    return [...link.target.components];
+  } else if (link.target.relativity > dir.length) {
+    return null;
+  } else {
+    return [
+      ...dir.slice(0, dir.length - link.target.relativity),
+      ...link.target.components,
+    ];
+  }
 }
 
 /**
@@ -132,6 +364,171 @@ export function cloneOutFsPath(p: OutFsPath): OutFsPath {
   };
 }
 
+/**
+ * Parse a unix-style path string into an {@linkcode OutFsPath}, the inverse of
+ * {@linkcode renderOutFsPath}. The result is normalized (see
+ * {@linkcode normalizeOutFsPath}).
+ *
+ * Some examples:
+ *
+ * - `"foo/bar"` becomes `{relativity: 0, components ["foo", "bar"]}`
+ * - `"/foo/bar"` becomes `{relativity: -1, components ["foo", "bar"]}`
+ * - `"../../foo"` becomes `{relativity: 2, components ["foo"]}`
+ * - `"./foo/../bar/"` becomes `{relativity: 0, components ["bar"]}`
+ */
+export function parseOutFsPath(s: string): OutFsPath {
+  const absolute = s.startsWith("/");
+  return normalizeOutFsPath({
+    relativity: absolute ? -1 : 0,
+    components: s.split("/"),
+  });
+}
+
+/**
+ * Normalize an {@linkcode OutFsPath}: remove empty and `.` components, and
+ * resolve `..` components against preceding components. For relative paths,
+ * leading `..` components are moved into the `relativity`, for absolute paths,
+ * `..` at the root are dropped.
+ */
+export function normalizeOutFsPath(p: OutFsPath): OutFsPath {
+  let relativity = p.relativity;
+  const components: string[] = [];
+
+  for (const component of p.components) {
+    if (component === "" || component === ".") {
+      continue;
+    } else if (component === "..") {
+      if (components.length > 0) {
+        components.pop();
+      } else if (relativity !== -1) {
+        relativity += 1;
+      }
+    } else {
+      components.push(component);
+    }
+  }
+
+  return { relativity, components };
+}
+
+/**
+ * Append the path `b` to the path `a`. If `b` is absolute, returns `b`. The
+ * result is normalized (see {@linkcode normalizeOutFsPath}).
+ *
+ * For example, joining `/foo/bar` and `../baz` yields `/foo/baz`.
+ */
+export function joinOutFsPath(a: OutFsPath, b: OutFsPath): OutFsPath {
+  if (b.relativity === -1) {
+    return normalizeOutFsPath(b);
+  }
+
+  const dots: string[] = new Array(b.relativity);
+  dots.fill("..");
+  return normalizeOutFsPath({
+    relativity: a.relativity,
+    components: [...a.components, ...dots, ...b.components],
+  });
+}
+
+/**
+ * Get the path to the parent directory of a path. The parent of the absolute
+ * root is the absolute root.
+ *
+ * For example, the parent of `foo/bar` is `foo`, and the parent of `..` is
+ * `../..`.
+ */
+export function parentOutFsPath(p: OutFsPath): OutFsPath {
+  return joinOutFsPath(p, relativeOutFsPath([], 1));
+}
+
+/**
+ * Get the last component of a (normalized) path, or `null` if it has no
+ * components (such as `/`, `.` or `../..`).
+ */
+export function basenameOutFsPath(p: OutFsPath): string | null {
+  const normalized = normalizeOutFsPath(p);
+  if (normalized.components.length === 0) {
+    return null;
+  } else {
+    return normalized.components[normalized.components.length - 1];
+  }
+}
+
+/**
+ * Get the extension of the last component of a path, including the leading
+ * dot (for example, `".html"` for `/foo/index.html`). Returns the empty string
+ * if there is no extension. A leading dot (as in `.gitignore`) does not start
+ * an extension.
+ */
+export function extensionOutFsPath(p: OutFsPath): string {
+  const basename = basenameOutFsPath(p);
+  if (basename === null) {
+    return "";
+  }
+
+  const dot = basename.lastIndexOf(".");
+  return dot <= 0 ? "" : basename.slice(dot);
+}
+
+/**
+ * Replace the extension (see {@linkcode extensionOutFsPath}) of the last
+ * component of a path with `extension` (which should include the leading dot,
+ * or be the empty string to remove the extension). Paths without components
+ * are returned unchanged.
+ *
+ * For example, changing the extension of `/foo/index.md` to `".html"` yields
+ * `/foo/index.html`.
+ */
+export function changeExtensionOutFsPath(
+  p: OutFsPath,
+  extension: string,
+): OutFsPath {
+  const normalized = normalizeOutFsPath(p);
+  const basename = basenameOutFsPath(normalized);
+  if (basename === null) {
+    return normalized;
+  }
+
+  const oldExtension = extensionOutFsPath(normalized);
+  normalized.components[normalized.components.length - 1] =
+    basename.slice(0, basename.length - oldExtension.length) + extension;
+  return normalized;
+}
+
+/**
+ * Check whether two paths are equal after normalization (see
+ * {@linkcode normalizeOutFsPath}). Does not resolve relative paths, so a
+ * relative path is never equal to an absolute one.
+ */
+export function equalsOutFsPath(a: OutFsPath, b: OutFsPath): boolean {
+  const na = normalizeOutFsPath(a);
+  const nb = normalizeOutFsPath(b);
+  return na.relativity === nb.relativity &&
+    na.components.length === nb.components.length &&
+    na.components.every((component, i) => component === nb.components[i]);
+}
+
+/**
+ * Check whether `ancestor` is a proper ancestor of `p` after normalization
+ * (see {@linkcode normalizeOutFsPath}), i.e., whether `p` lies strictly
+ * inside the directory at `ancestor`. Both paths must have the same
+ * relativity, a relative path is never an ancestor of an absolute one or vice
+ * versa.
+ *
+ * For example, `/foo` is an ancestor of `/foo/bar/baz`, but neither of `/foo`
+ * nor of `/foobar`.
+ */
+export function isAncestorOutFsPath(
+  ancestor: OutFsPath,
+  p: OutFsPath,
+): boolean {
+  const na = normalizeOutFsPath(ancestor);
+  const np = normalizeOutFsPath(p);
+  return na.relativity === np.relativity &&
+    na.components.length < np.components.length &&
+    na.components.every((component, i) => component === np.components[i]);
+}
+
 function singletonPath(component: string): OutFsPath {
   return relativeOutFsPath([component]);
 }
@@ -163,7 +560,7 @@ export function resolveRelativePath(
   while (relativity > 0) {
     if (currentPath.length > 0) {
       relativity -= 1;
-      currentPath = currentPath.slice(1);
+      currentPath = currentPath.slice(0, -1);
     } else {
       const dotdot = styleOutFsPath({ relativity: 1, components: [] });
       logResolveFailure(ctx, path, absoluteOutFsPath(startPath));
@@ -196,11 +593,80 @@ type OutFS = {
    */
   shell: OutShell;
   /**
-   * The (platform-dependent) path to where the roor PretendDir is "mounted" in
-   * the real file system.
-   * Set to the cwd when this file gets loaded, and never changed again.
+   * For each backend, the (absolute, platform-dependent) mount points it has
+   * already prepared.
    */
-  mount: string;
+  preparedMounts: Map<OutFsBackend, Set<string>>;
+  /**
+   * All links recorded via {@linkcode outLink}, to be checked by
+   * {@linkcode CheckLinks}.
+   */
+  links: OutLink[];
+  /**
+   * Bookkeeping for incremental builds, `null` outside of any
+   * {@linkcode Incremental} macro.
+   */
+  incremental: {
+    /**
+     * The directories that must be reconciled at the end of the build,
+     * because they would have been cleaned in a non-incremental build.
+     */
+    reconcile: { dir: OutDir; path: string[] }[];
+  } | null;
+  /**
+   * Maps the rendered absolute logical paths of all {@linkcode HashedFile}s
+   * to their actual paths.
+   */
+  hashed: Map<string, OutFsPath>;
+  /**
+   * The defaults for macros that do not specify a mode or whether to clean, as
+   * set by {@linkcode Defaults} macros.
+   */
+  defaults: { mode: Mode; clean: boolean };
+  /**
+   * The collisions recorded so far, or `null` outside of any
+   * {@linkcode CollectCollisions} macro.
+   */
+  collisions: Collision[] | null;
+  /**
+   * Whether evaluation happens within a {@linkcode DryRun} macro. Macros that
+   * write to the disk directly rather than via the backend must not write then.
+   */
+  dryRun: boolean;
+  /**
+   * Work that must wait until the outermost enclosing
+   * {@linkcode CollectCollisions} or {@linkcode CheckLinks} macro has found no
+   * problems, such as moving the staging directory of a
+   * {@linkcode Transaction} into place. `null` outside of any such macro.
+   */
+  afterChecks: ((ctx: Context) => void)[] | null;
+  /**
+   * All hooks registered via {@linkcode outRegisterHook}.
+   */
+  hooks: OutFsHook[];
+};
+
+/**
+ * A collision recorded by a {@linkcode CollectCollisions} macro.
+ */
+type Collision = {
+  /**
+   * The absolute path at which the collision happened.
+   */
+  path: OutFsPath;
+  /**
+   * The macro that created the existing node.
+   */
+  existingSource: DebuggingInformation;
+  /**
+   * The mode with which the existing node was created, if known.
+   */
+  existingMode: Mode | null;
+  /**
+   * The macro that tried to create a new node.
+   */
+  source: DebuggingInformation;
+  mode: Mode;
 };
 
 const [getState, _setState] = createSubstate<OutFS>(() => ({
@@ -209,464 +675,3732 @@ const [getState, _setState] = createSubstate<OutFS>(() => ({
     cwd: [],
     filename: null,
   },
-  mount: Deno.cwd(),
+  preparedMounts: new Map(),
+  links: [],
+  incremental: null,
+  hashed: new Map(),
+  defaults: { mode: "timid", clean: true },
+  collisions: null,
+  dryRun: false,
+  afterChecks: null,
+  hooks: [],
 }));
 
 /**
  * Get the mount point of the OutFs as a platform-dependent absolute path.
+ *
+ * The mount point is configured via the `mount` option of the
+ * {@linkcode ConfigOutFs} macro.
  */
 export function outMount(ctx: Context): string {
-  return getState(ctx).mount;
+  return resolve(getConfig(ctx).mount);
 }
 
 /**
- * Get the current out directory as an `OutFsPath`.
+ * The storage that the OutFs macros write to. All paths are the components of
+ * absolute paths in the OutFs, it is up to the backend to map them to actual
+ * storage locations (typically by interpreting them relative to
+ * {@linkcode outMount}).
  *
- * The returned path is always an absolute path (i.e., its `relatvity` is -1).
+ * All functions should log an error and halt the context on failure.
  */
-export function outCwd(ctx: Context): OutFsPath {
-  return absoluteOutFsPath([...getState(ctx).shell.cwd]);
-}
+export type OutFsBackend = {
+  /**
+   * Called with the mount point before the first write to it.
+   */
+  prepare: (ctx: Context, mount: string) => void;
+  /**
+   * Create an empty directory, removing anything that existed there before.
+   */
+  emptyDir: (ctx: Context, path: string[]) => void;
+  /**
+   * Create a directory if none exists yet, leave it untouched otherwise.
+   */
+  ensureDir: (ctx: Context, path: string[]) => void;
+  /**
+   * Remove whatever is stored at the path, if anything.
+   */
+  ensureNot: (ctx: Context, path: string[]) => void;
+  /**
+   * Write a text file, replacing any prior file.
+   */
+  writeTextFile: (ctx: Context, path: string[], contents: string) => void;
+  /**
+   * Write a binary file, replacing any prior file.
+   */
+  writeFile: (ctx: Context, path: string[], contents: Uint8Array) => void;
+  /**
+   * Create a symlink, the target is always a relative path (with a
+   * `relativity` of at least zero), resolved from the directory that contains
+   * the symlink.
+   */
+  symlink: (ctx: Context, path: string[], target: OutFsPath) => void;
+  /**
+   * List the names and kinds of the entries of a directory, or return `null`
+   * if there is no directory at the path.
+   */
+  readDir: (
+    ctx: Context,
+    path: string[],
+  ) => { name: string; kind: OutFsNodeKind }[] | null;
+  /**
+   * Read the contents of a file, or return `null` if there is no file (but
+   * nothing or a directory or symlink) at the path.
+   */
+  readFile: (ctx: Context, path: string[]) => Uint8Array | null;
+  /**
+   * Set the attributes of a file or directory. Backends that cannot store
+   * attributes may omit this.
+   */
+  setAttributes?: (
+    ctx: Context,
+    path: string[],
+    attributes: OutFsAttributes,
+  ) => void;
+};
 
 /**
- * Get the name of the current file, or `null` if called outside of any `File`
- * macro invocation.
+ * Attributes of a file or directory beyond its contents.
  */
-export function outFilename(ctx: Context): string | null {
-  return getState(ctx).shell.filename;
+export type OutFsAttributes = {
+  /**
+   * The Unix permission mode, such as `0o755` (ignored on Windows).
+   */
+  permissions?: number;
+  /**
+   * The modification time (and access time).
+   */
+  mtime?: Date;
+};
+
+/**
+ * Get the backend to write to, prepared for the current mount point.
+ */
+function getBackend(ctx: Context): OutFsBackend {
+  const backend = getConfig(ctx).backend;
+  const mount = outMount(ctx);
+  const state = getState(ctx);
+
+  let prepared = state.preparedMounts.get(backend);
+  if (prepared === undefined) {
+    prepared = new Set();
+    state.preparedMounts.set(backend, prepared);
+  }
+
+  if (!prepared.has(mount)) {
+    backend.prepare(ctx, mount);
+    prepared.add(mount);
+  }
+
+  return backend;
 }
 
-export function outFullPath(ctx: Context): OutFsPath {
-  const filename = outFilename(ctx);
-  const cwd = outCwd(ctx);
+/**
+ * Log an error about a failed operation of the real file system, then halt.
+ */
+function diskFailure(
+  ctx: Context,
+  what: string,
+  path: string,
+  err: unknown,
+): never {
+  l.error(ctx, `Failed to ${what} ${Colors.yellow(path)}`);
+  l.logGroup(ctx, () => {
+    l.error(ctx, `${err}`);
+  });
+  ctx.halt();
+  throw "just halted";
+}
 
-  if (filename === null) {
-    return cwd;
-  } else {
-    const ret = cloneOutFsPath(cwd);
-    ret.components.push(filename);
-    return ret;
+/**
+ * Get information about a path in the real file system without following
+ * symlinks, or `null` if nothing exists at the path.
+ */
+function lstatOrNull(path: string): Deno.FileInfo | null {
+  try {
+    return Deno.lstatSync(path);
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) {
+      return null;
+    } else {
+      throw err;
+    }
   }
 }
 
 /**
- * Change the current out directory for the children of this macro.
+ * Create an {@linkcode OutFsBackend} that writes to the real file system.
  *
- * @param path - An {@linkcode OutFsPath} to resolve from the current out
- * directory.
- * @param create - Whether to create missing parent directories (`true`) or
- * error on missing parent directories (`false`). Defaults to `false`.
- * @param children - Expressions to evaluate in a changed current out
- * directory.
- * @returns The evaluated children.
+ * @param root - The (platform-dependent) directory at which to root the OutFs.
+ * Defaults to the {@linkcode outMount}.
  */
-export function Cd({ children: children_, path: path_, create = false }: {
-  path: OutFsPath;
-  create?: boolean;
-  children?: Expressions;
-}): Expression {
-  const children = expressions(children_);
-  const path = cloneOutFsPath(path_);
+export function createDiskBackend(root?: string): OutFsBackend {
+  const rootOf = (ctx: Context) => root ?? outMount(ctx);
 
-  // Some state to let `pre` and `post` cooperate in changing the current
-  // out dir and later undoing the change.
-  let priorOutDirectory: string[] = [];
+  return {
+    prepare: (ctx, mount_) => {
+      const mount = root ?? mount_;
+      let info: Deno.FileInfo | null = null;
+      try {
+        info = Deno.statSync(mount);
+      } catch (err) {
+        if (!(err instanceof Deno.errors.NotFound)) {
+          diskFailure(ctx, "access the out fs mount point", mount, err);
+        }
+      }
 
-  // Reset the current out dir to what they where before this macro.
-  const post = (ctx: Context) => {
-    const state = getState(ctx);
-    state.shell.cwd = priorOutDirectory;
+      if (info === null) {
+        try {
+          Deno.mkdirSync(mount, { recursive: true });
+        } catch (err) {
+          diskFailure(ctx, "create the out fs mount point", mount, err);
+        }
+      } else if (!info.isDirectory) {
+        l.error(ctx, `Cannot mount the out fs at ${Colors.yellow(mount)}`);
+        l.logGroup(ctx, () => {
+          l.error(ctx, `The mount point exists but is not a directory.`);
+        });
+        ctx.halt();
+        throw "just halted";
+      }
+    },
+
+    emptyDir: (ctx, path) => {
+      const p = join(rootOf(ctx), ...path);
+      try {
+        const info = lstatOrNull(p);
+        if (info === null) {
+          Deno.mkdirSync(p);
+        } else if (info.isDirectory) {
+          for (const entry of Deno.readDirSync(p)) {
+            Deno.removeSync(join(p, entry.name), { recursive: true });
+          }
+        } else {
+          Deno.removeSync(p);
+          Deno.mkdirSync(p);
+        }
+      } catch (err) {
+        diskFailure(ctx, "create empty directory", p, err);
+      }
+    },
+
+    ensureDir: (ctx, path) => {
+      const p = join(rootOf(ctx), ...path);
+      try {
+        const info = lstatOrNull(p);
+        if (info !== null && !info.isDirectory) {
+          Deno.removeSync(p);
+        }
+        Deno.mkdirSync(p, { recursive: true });
+      } catch (err) {
+        diskFailure(ctx, "create directory", p, err);
+      }
+    },
+
+    ensureNot: (ctx, path) => {
+      const p = join(rootOf(ctx), ...path);
+      try {
+        Deno.removeSync(p, { recursive: true });
+      } catch (err) {
+        if (!(err instanceof Deno.errors.NotFound)) {
+          diskFailure(ctx, "remove", p, err);
+        }
+      }
+    },
+
+    writeTextFile: (ctx, path, contents) => {
+      const p = join(rootOf(ctx), ...path);
+      try {
+        Deno.writeTextFileSync(p, contents);
+      } catch (err) {
+        diskFailure(ctx, "write file", p, err);
+      }
+    },
+
+    writeFile: (ctx, path, contents) => {
+      const p = join(rootOf(ctx), ...path);
+      try {
+        Deno.writeFileSync(p, contents);
+      } catch (err) {
+        diskFailure(ctx, "write file", p, err);
+      }
+    },
+
+    symlink: (ctx, path, target) => {
+      const p = join(rootOf(ctx), ...path);
+      const dots: string[] = new Array(target.relativity);
+      dots.fill("..");
+      try {
+        Deno.symlinkSync(join(".", ...dots, ...target.components), p);
+      } catch (err) {
+        diskFailure(ctx, "create symlink", p, err);
+      }
+    },
+
+    readDir: (ctx, path) => {
+      const p = join(rootOf(ctx), ...path);
+      try {
+        const info = lstatOrNull(p);
+        if (info === null || !info.isDirectory) {
+          return null;
+        }
+
+        return [...Deno.readDirSync(p)].map((entry) => ({
+          name: entry.name,
+          kind: entry.isDirectory
+            ? "dir"
+            : (entry.isSymlink ? "symlink" : "file"),
+        }));
+      } catch (err) {
+        diskFailure(ctx, "read directory", p, err);
+      }
+    },
+
+    readFile: (ctx, path) => {
+      const p = join(rootOf(ctx), ...path);
+      try {
+        const info = lstatOrNull(p);
+        if (info === null || !info.isFile) {
+          return null;
+        }
+
+        return Deno.readFileSync(p);
+      } catch (err) {
+        diskFailure(ctx, "read file", p, err);
+      }
+    },
+
+    setAttributes: (ctx, path, { permissions, mtime }) => {
+      const p = join(rootOf(ctx), ...path);
+      try {
+        if (permissions !== undefined && Deno.build.os !== "windows") {
+          Deno.chmodSync(p, permissions);
+        }
+        if (mtime !== undefined) {
+          Deno.utimeSync(p, mtime, mtime);
+        }
+      } catch (err) {
+        diskFailure(ctx, "set the attributes of", p, err);
+      }
+    },
   };
+}
 
-  // Remember the prior out dir to the current one, then update the
-  // actual state to the new ones.
-  const pre = (ctx: Context) => {
-    const initialCwd = outCwd(ctx);
-    const shell = getState(ctx).shell;
-    // Remember the old cwd.
-    priorOutDirectory = [...shell.cwd];
+/**
+ * The default {@linkcode OutFsBackend}: writes to the real file system, rooted
+ * at the {@linkcode outMount}.
+ */
+export const diskBackend: OutFsBackend = createDiskBackend();
 
-    /* Now we set the new cwd */
+/**
+ * A node stored by a {@linkcode MemoryBackend}: the contents of a text file or
+ * of a binary file, a directory, or a symlink.
+ */
+export type MemoryNode = string | Uint8Array | MemoryDir | MemorySymlink;
 
-    if (path.relativity === -1) {
-      // We cd to an absolute path by setting the cwd to the root directory
-      // and then treating the path like a relative one.
-      shell.cwd = [];
-      path.relativity = 0;
-    }
+/**
+ * A directory stored by a {@linkcode MemoryBackend}.
+ */
+export type MemoryDir = Map<string, MemoryNode>;
 
-    // Move upwards for any `..`.
-    while (path.relativity > 0) {
-      if (shell.cwd.length > 0) {
-        shell.cwd.pop();
+/**
+ * A symlink stored by a {@linkcode MemoryBackend}, with its target rendered
+ * via {@linkcode renderOutFsPath}.
+ */
+export type MemorySymlink = { target: string };
+
+/**
+ * An {@linkcode OutFsBackend} that does not touch the real file system, but
+ * records all directories and files in memory. The mount point is ignored.
+ */
+export type MemoryBackend = OutFsBackend & {
+  /**
+   * The root directory of everything that was written.
+   */
+  root: MemoryDir;
+  /**
+   * The attributes set for files and directories, keyed by their absolute
+   * paths as rendered by {@linkcode renderOutFsPath}.
+   */
+  attributes: Map<string, OutFsAttributes>;
+  setAttributes: NonNullable<OutFsBackend["setAttributes"]>;
+};
+
+/**
+ * Create a fresh {@linkcode MemoryBackend} with an empty root directory.
+ *
+ * Useful for testing macros without touching the file system: evaluate with
+ * the backend configured via {@linkcode ConfigOutFs}, then inspect its `root`.
+ */
+export function createMemoryBackend(): MemoryBackend {
+  const root: MemoryDir = new Map();
+  const attributes = new Map<string, OutFsAttributes>();
+
+  // Resolve the symlinks in all but the last component of the path, like a
+  // file system does when accessing the path.
+  const canonical = (path: string[]): string[] => {
+    let remaining = [...path];
+    let resolved: string[] = [];
+    let dir: MemoryDir | null = root;
+    // Give up on following symlinks after this many, to not loop forever.
+    let hops = maxSymlinkHops;
+
+    while (remaining.length > 1) {
+      const [fst, ...rest] = remaining;
+      const next = dir?.get(fst);
+      if (
+        next !== undefined && !(next instanceof Map) &&
+        !(next instanceof Uint8Array) && typeof next === "object" && hops > 0
+      ) {
+        hops -= 1;
+        const target = joinOutFsPath(
+          absoluteOutFsPath(resolved),
+          parseOutFsPath(next.target),
+        );
+        remaining = [...target.components, ...rest];
+        resolved = [];
+        dir = root;
       } else {
-        const dotdot = styleOutFsPath({ relativity: 1, components: [] });
-        logResolveFailure(ctx, path_, initialCwd);
+        resolved.push(fst);
+        dir = next instanceof Map ? next : null;
+        remaining = rest;
+      }
+    }
+
+    return [...resolved, ...remaining];
+  };
+
+  // Get the directory containing the node at the given path, creating
+  // missing directories along the way.
+  const parentDir = (ctx: Context, path_: string[]): MemoryDir => {
+    const path = canonical(path_);
+    let dir = root;
+    for (let i = 0; i < path.length - 1; i++) {
+      let next = dir.get(path[i]);
+      if (next === undefined) {
+        next = new Map();
+        dir.set(path[i], next);
+      }
+
+      if (!(next instanceof Map)) {
+        l.error(
+          ctx,
+          `Cannot write to ${
+            styleOutFsPath(absoluteOutFsPath(path))
+          } in the memory backend`,
+        );
         l.logGroup(ctx, () => {
           l.error(
             ctx,
-            `Reached the root of the out fs after processing ${
-              path_.relativity - path.relativity
-            } many ${dotdot}`,
-          );
-          l.error(
-            ctx,
-            `But the remaining path has ${path.relativity} more ${dotdot}:`,
+            `${
+              styleOutFsPath(absoluteOutFsPath(path.slice(0, i + 1)))
+            } is not a directory.`,
           );
-          l.error(ctx, `${styleOutFsPath(path)}`);
         });
-        return ctx.halt();
+        ctx.halt();
+        throw "just halted";
       }
 
-      path.relativity -= 1;
+      dir = next;
     }
 
-    // Done processing the `..`, can concat the path components to the cwd.
-    shell.cwd = shell.cwd.concat(path.components);
+    return dir;
+  };
 
-    // Trigger an error if the resulting cwd is invalid for any reason.
-    const node = resolveCwd(ctx, create, path_, initialCwd);
-    const _ = ensureOutNodeIsDir(ctx, node, path_, initialCwd, outCwd(ctx));
+  const lastComponent = (path: string[]) => path[path.length - 1];
+
+  // Remove the attributes of the node at the given path and of everything
+  // below it.
+  const forgetAttributes = (path: string[]) => {
+    const key = renderOutFsPath(absoluteOutFsPath(canonical(path)));
+    const prefix = key === "/" ? key : `${key}/`;
+    for (const other of [...attributes.keys()]) {
+      if (other === key || other.startsWith(prefix)) {
+        attributes.delete(other);
+      }
+    }
   };
 
-  return (
-    <lifecycle pre={pre} post={post}>
-      <fragment exps={children} />
-    </lifecycle>
-  );
+  // Get the node at the given path, or `null` if there is none.
+  const lookup = (path: string[]): MemoryNode | null => {
+    let node: MemoryNode = root;
+    for (const component of canonical(path)) {
+      if (!(node instanceof Map)) {
+        return null;
+      }
+      const next: MemoryNode | undefined = node.get(component);
+      if (next === undefined) {
+        return null;
+      }
+      node = next;
+    }
+    return node;
+  };
+
+  return {
+    root,
+    attributes,
+    prepare: (_ctx, _mount) => {},
+    emptyDir: (ctx, path) => {
+      parentDir(ctx, path).set(lastComponent(path), new Map());
+      forgetAttributes(path);
+    },
+    ensureDir: (ctx, path) => {
+      const parent = parentDir(ctx, path);
+      const name = lastComponent(path);
+      if (!(parent.get(name) instanceof Map)) {
+        parent.set(name, new Map());
+      }
+    },
+    ensureNot: (ctx, path) => {
+      parentDir(ctx, path).delete(lastComponent(path));
+      forgetAttributes(path);
+    },
+    writeTextFile: (ctx, path, contents) => {
+      parentDir(ctx, path).set(lastComponent(path), contents);
+    },
+    writeFile: (ctx, path, contents) => {
+      parentDir(ctx, path).set(lastComponent(path), contents);
+    },
+    symlink: (ctx, path, target) => {
+      parentDir(ctx, path).set(lastComponent(path), {
+        target: renderOutFsPath(target),
+      });
+    },
+    readDir: (_ctx, path) => {
+      const dir = lookup(path);
+      if (!(dir instanceof Map)) {
+        return null;
+      }
+
+      return [...dir].map(([name, node]) => ({
+        name,
+        kind: node instanceof Map
+          ? "dir"
+          : (typeof node === "object" && "target" in node ? "symlink" : "file"),
+      }));
+    },
+    readFile: (_ctx, path) => {
+      const file = lookup(path);
+      if (typeof file === "string") {
+        return new TextEncoder().encode(file);
+      } else if (file instanceof Uint8Array) {
+        return file;
+      } else {
+        return null;
+      }
+    },
+    setAttributes: (_ctx, path, nodeAttributes) => {
+      attributes.set(renderOutFsPath(absoluteOutFsPath(canonical(path))), {
+        ...nodeAttributes,
+      });
+    },
+  };
 }
 
-function logResolveFailure(ctx: Context, path: OutFsPath, from: OutFsPath) {
-  l.error(ctx, `Failed to resolve OutFsPath to a directory.`);
-  l.logGroup(ctx, () => {
-    l.error(ctx, `path: ${styleOutFsPath(path)}`);
-    l.error(ctx, `from out-cwd: ${styleOutFsPath(from)}`);
-  });
+/**
+ * Get the current out directory as an `OutFsPath`.
+ *
+ * The returned path is always an absolute path (i.e., its `relatvity` is -1).
+ */
+export function outCwd(ctx: Context): OutFsPath {
+  return absoluteOutFsPath([...getState(ctx).shell.cwd]);
 }
 
 /**
- * Internal function: resolves the pwd of the shell to an OutFsNode. Halts if
- * impossible.
- * @param ctx - The context whose shell should be resolved to a node.
- * @param create - Whether to create missing parent directories (`true`) or
- * error on missing parent directories (`false`).
- * @param path - The path to originally resolve, for better error messages.
- * @param from - The path from where to originally resolve, for better error
- * messages.
+ * Get the name of the current file, or `null` if called outside of any `File`
+ * macro invocation.
  */
-function resolveCwd(
+export function outFilename(ctx: Context): string | null {
+  return getState(ctx).shell.filename;
+}
+
+export function outFullPath(ctx: Context): OutFsPath {
+  const filename = outFilename(ctx);
+  const cwd = outCwd(ctx);
+
+  if (filename === null) {
+    return cwd;
+  } else {
+    const ret = cloneOutFsPath(cwd);
+    ret.components.push(filename);
+    return ret;
+  }
+}
+
+/**
+ * Check whether there is a node at the given path, resolved from the current
+ * out directory like {@linkcode resolveRelativePath} does. Follows symlinks.
+ *
+ * @param kind - If given, additionally require the node to be a `"file"` or a
+ * `"dir"`.
+ */
+export function outExists(
   ctx: Context,
-  create: boolean,
   path: OutFsPath,
-  from: OutFsPath,
-): OutFsNode {
-  const shell = getState(ctx).shell;
+  kind?: "file" | "dir",
+): boolean {
+  const node = lookupNode(ctx, resolveRelativePath(ctx, path));
+  if (node === null) {
+    return false;
+  } else {
+    return kind === undefined || nodeKind(node.node) === kind;
+  }
+}
 
-  const startPath = [...shell.cwd];
+/**
+ * List the contents of the directory at the given path, resolved from the
+ * current out directory like {@linkcode resolveRelativePath} does. Follows
+ * symlinks.
+ *
+ * Returns the absolute paths of all entries, ordered by name, or `null` if
+ * there is no directory at the path.
+ */
+export function outList(ctx: Context, dir: OutFsPath): OutFsPath[] | null {
+  const resolved = resolveRelativePath(ctx, dir);
+  const node = lookupNode(ctx, resolved);
+  if (node === null || !isOutDir(node.node)) {
+    return null;
+  }
 
-  // We resolve the path by iteratively resolving the first path component.
-  let currentPath = [...startPath];
-  // The components that have already been resolved.
-  // The algorithm maintains concat(resolved, currentPath) == shell.cwd
+  return [...node.node.keys()].sort().map((name) =>
+    absoluteOutFsPath([...resolved.components, name])
+  );
+}
+
+/**
+ * Find all nodes in the OutFs whose path matches a glob pattern, such as
+ * `"blog/*.html"` (use `**` to match any number of directories). Patterns
+ * starting with a `/` are matched against absolute paths, all other patterns
+ * are matched against paths relative to the current out directory (and thus
+ * only match nodes inside it).
+ *
+ * Returns absolute paths in depth-first order, with the entries of each
+ * directory ordered by name. Does not descend into symlinks.
+ */
+export function outGlob(ctx: Context, pattern: string): OutFsPath[] {
+  const absolute = pattern.startsWith("/");
+  const regex = globToRegExp(absolute ? pattern.slice(1) : pattern, {
+    extended: true,
+    globstar: true,
+  });
+
+  const base = absolute ? [] : getState(ctx).shell.cwd;
+  const baseNode = lookupNode(ctx, absoluteOutFsPath(base));
+  if (baseNode === null || !isOutDir(baseNode.node)) {
+    return [];
+  }
+
+  const matches: OutFsPath[] = [];
+  walkOutDir(baseNode.node, [], (path) => {
+    if (regex.test(path.join("/"))) {
+      matches.push(absoluteOutFsPath([...base, ...path]));
+    }
+  });
+
+  return matches;
+}
+
+/**
+ * Compute the shortest relative {@linkcode OutFsPath} that leads from the
+ * current out directory (i.e., the directory of the current file, if any) to
+ * `target`. A relative `target` is first resolved like
+ * {@linkcode resolveRelativePath} does.
+ *
+ * This is purely syntactic, it does not check whether `target` exists.
+ *
+ * Some examples, with the current out directory being `/foo/bar`:
+ *
+ * - `/foo/bar/baz.html` becomes `baz.html`
+ * - `/foo/qux/index.html` becomes `../qux/index.html`
+ * - `/foo` becomes `..`
+ * - `/foo/bar` becomes `.`
+ */
+export function outRelativeTo(ctx: Context, target: OutFsPath): OutFsPath {
+  const from = outCwd(ctx).components;
+  const to = resolveRelativePath(ctx, target).components;
+
+  let shared = 0;
+  while (
+    shared < from.length && shared < to.length && from[shared] === to[shared]
+  ) {
+    shared += 1;
+  }
+
+  return relativeOutFsPath(to.slice(shared), from.length - shared);
+}
+
+/**
+ * Render a link from the current out directory to `target` as a relative URL,
+ * suitable for an `href` attribute. Computes the path like
+ * {@linkcode outRelativeTo}, then percent-encodes all path components.
+ *
+ * For example, with the current out directory being `/foo/bar`, the target
+ * `/foo/my recipes/index.html` becomes `"../my%20recipes/index.html"`.
+ */
+export function outHref(ctx: Context, target: OutFsPath): string {
+  const relative = outRelativeTo(ctx, target);
+  return renderOutFsPath(
+    relativeOutFsPath(
+      relative.components.map((component) => encodeURIComponent(component)),
+      relative.relativity,
+    ),
+  );
+}
+
+/**
+ * How many symlinks to follow when resolving a single path before giving up,
+ * like file systems do. Following the same symlink repeatedly is fine, but a
+ * cycle exceeds any limit.
+ */
+const maxSymlinkHops = 40;
+
+/**
+ * Internal function: look up the node at an absolute path in the OutFs, or
+ * return `null` if there is none.
+ */
+function lookupNode(ctx: Context, path: OutFsPath): OutFsNode | null {
+  const root = getState(ctx).shell.root;
+  let currentPath = [...path.components];
   let resolved: string[] = [];
-  // While resolving the path, this variable stores the successive directories.
-  let currentNode: OutFsNode = { source: {}, node: shell.root };
+  let currentNode: OutFsNode = { source: {}, node: root };
+  // How many more symlinks to follow, to not loop forever on cycles.
+  let hops = maxSymlinkHops;
 
   while (currentPath.length > 0) {
     const [fst, ...rest] = currentPath;
 
-    if (isOutFile(currentNode.node)) {
-      // We have reached a leaf file, yet the path still has more components.
-      // Time to error out.
-      logResolveFailure(ctx, path, from);
-      l.logGroup(ctx, () => {
-        l.error(
-          ctx,
-          `${
-            styleOutFsPath(absoluteOutFsPath(currentPath))
-          } is not a directory.`,
-        );
-        l.error(
-          ctx,
-          `The non-directory was created at ${
-            styleDebuggingInformation(currentNode.source)
-          }`,
-        );
-      });
-      ctx.halt();
-      throw "just halted";
+    if (!isOutDir(currentNode.node)) {
+      return null;
     }
 
-    // Neither leaf file nor symlink, so we are in a directory.
-    // Look up the next path component.
-    let nextNode = currentNode.node.get(fst);
+    const nextNode = currentNode.node.get(fst);
     if (nextNode === undefined) {
-      // Path component not found. Should we create the directory?
-      if (create) {
-        // Yes, create the directory and act like it always was there.
-        nextNode = {
-          source: ctx.getCurrentDebuggingInformation(),
-          node: new Map(),
-        };
-        currentNode.node.set(fst, nextNode);
-        Deno.mkdirSync(join(getState(ctx).mount, ...resolved, fst));
+      return null;
+    }
+
+    if (isOutSymlink(nextNode.node)) {
+      const target = symlinkTarget(resolved, nextNode.node);
+      if (target === null || hops === 0) {
+        return null;
+      }
+      hops -= 1;
+
+      currentPath = [...target, ...rest];
+      resolved = [];
+      currentNode = { source: {}, node: root };
+      continue;
+    }
+
+    currentPath = rest;
+    resolved = [...resolved, fst];
+    currentNode = nextNode;
+  }
+
+  return currentNode;
+}
+
+/**
+ * Internal function: call `fun` for every node below `dir` (which resides at
+ * `dirPath`) with its absolute path, in depth-first order, with the entries of
+ * each directory ordered by name. Does not follow symlinks.
+ */
+function walkOutDir(
+  dir: OutDir,
+  dirPath: string[],
+  fun: (path: string[], node: OutFsNode) => void,
+) {
+  for (const name of [...dir.keys()].sort()) {
+    const node = dir.get(name)!;
+    const path = [...dirPath, name];
+
+    fun(path, node);
+
+    if (isOutDir(node.node)) {
+      walkOutDir(node.node, path, fun);
+    }
+  }
+}
+
+/**
+ * Internal function: look up the file at `path` (resolved from the current out
+ * directory), or return `null` if there is no file at that path.
+ */
+function lookupFile(ctx: Context, path: OutFsPath): OutFile | null {
+  const node = lookupNode(ctx, resolveRelativePath(ctx, path));
+  if (node === null || !isOutFile(node.node)) {
+    return null;
+  } else {
+    return node.node;
+  }
+}
+
+/**
+ * Get the contents of the file at the given path, resolved from the current
+ * out directory like {@linkcode resolveRelativePath} does.
+ *
+ * Returns `null` if there is no such file (yet), or if its contents are still
+ * being evaluated. An `impure` macro can thus return `null` to try again later.
+ *
+ * The contents are a string for files created by {@linkcode File}, and a
+ * `Uint8Array` for files created by {@linkcode BinaryFile}.
+ *
+ * Requires the `retainContents` option of {@linkcode ConfigOutFs} to be set,
+ * halts if the contents of the file were not retained.
+ */
+export function outReadFile(
+  ctx: Context,
+  path: OutFsPath,
+): string | Uint8Array | null {
+  const file = lookupFile(ctx, path);
+  if (file === null || file.size === null) {
+    return null;
+  }
+
+  if (file.contents === null) {
+    l.error(
+      ctx,
+      `Cannot read ${styleOutFsPath(path)}, its contents were not retained.`,
+    );
+    l.logGroup(ctx, () => {
+      l.error(
+        ctx,
+        `Set the ${Colors.yellow("retainContents")} option of ${
+          Colors.yellow("ConfigOutFs")
+        } to keep file contents in memory.`,
+      );
+    });
+    ctx.halt();
+    throw "just halted";
+  }
+
+  return file.contents;
+}
+
+/**
+ * Get the size in bytes of the file at the given path, resolved from the
+ * current out directory like {@linkcode resolveRelativePath} does.
+ *
+ * Returns `null` if there is no such file (yet), or if its contents are still
+ * being evaluated. Works whether contents are retained or not.
+ */
+export function outFileSize(ctx: Context, path: OutFsPath): number | null {
+  const file = lookupFile(ctx, path);
+  return file === null ? null : file.size;
+}
+
+/**
+ * Change the current out directory for the children of this macro.
+ *
+ * @param path - An {@linkcode OutFsPath} to resolve from the current out
+ * directory.
+ * @param create - Whether to create missing parent directories (`true`) or
+ * error on missing parent directories (`false`). Defaults to `false`.
+ * @param children - Expressions to evaluate in a changed current out
+ * directory.
+ * @returns The evaluated children.
+ */
+export function Cd({ children: children_, path: path_, create = false }: {
+  path: OutFsPath;
+  create?: boolean;
+  children?: Expressions;
+}): Expression {
+  const children = expressions(children_);
+
+  // Some state to let `pre` and `post` cooperate in changing the current
+  // out dir and later undoing the change.
+  let priorOutDirectory: string[] = [];
+
+  // Reset the current out dir to what they where before this macro.
+  const post = (ctx: Context) => {
+    const state = getState(ctx);
+    state.shell.cwd = priorOutDirectory;
+  };
+
+  // Remember the prior out dir to the current one, then update the
+  // actual state to the new ones.
+  const pre = (ctx: Context) => {
+    const initialCwd = outCwd(ctx);
+    const shell = getState(ctx).shell;
+    // `pre` runs again whenever the children take several rounds of
+    // evaluation, so we work on a fresh copy of the path each time.
+    const path = cloneOutFsPath(path_);
+
+    for (const component of path_.components) {
+      const problem = nameProblem(component);
+      if (problem !== null) {
+        logResolveFailure(ctx, path_, initialCwd);
+        l.logGroup(ctx, () => {
+          l.error(
+            ctx,
+            `Invalid path component ${
+              Colors.yellow(JSON.stringify(component))
+            }`,
+          );
+          l.error(ctx, problem);
+        });
+        return ctx.halt();
+      }
+    }
+
+    // Remember the old cwd.
+    priorOutDirectory = [...shell.cwd];
+
+    /* Now we set the new cwd */
+
+    if (path.relativity === -1) {
+      // We cd to an absolute path by setting the cwd to the root directory
+      // and then treating the path like a relative one.
+      shell.cwd = [];
+      path.relativity = 0;
+    }
+
+    // Move upwards for any `..`.
+    while (path.relativity > 0) {
+      if (shell.cwd.length > 0) {
+        shell.cwd.pop();
+      } else {
+        const dotdot = styleOutFsPath({ relativity: 1, components: [] });
+        logResolveFailure(ctx, path_, initialCwd);
+        l.logGroup(ctx, () => {
+          l.error(
+            ctx,
+            `Reached the root of the out fs after processing ${
+              path_.relativity - path.relativity
+            } many ${dotdot}`,
+          );
+          l.error(
+            ctx,
+            `But the remaining path has ${path.relativity} more ${dotdot}:`,
+          );
+          l.error(ctx, `${styleOutFsPath(path)}`);
+        });
+        return ctx.halt();
+      }
+
+      path.relativity -= 1;
+    }
+
+    // Done processing the `..`, can concat the path components to the cwd.
+    shell.cwd = shell.cwd.concat(path.components);
+
+    // Trigger an error if the resulting cwd is invalid for any reason.
+    const { node } = resolveCwd(ctx, create, path_, initialCwd);
+    const _ = ensureOutNodeIsDir(ctx, node, path_, initialCwd, outCwd(ctx));
+  };
+
+  return (
+    <lifecycle pre={pre} post={post}>
+      <fragment exps={children} />
+    </lifecycle>
+  );
+}
+
+function logResolveFailure(ctx: Context, path: OutFsPath, from: OutFsPath) {
+  l.error(ctx, `Failed to resolve OutFsPath to a directory.`);
+  l.logGroup(ctx, () => {
+    l.error(ctx, `path: ${styleOutFsPath(path)}`);
+    l.error(ctx, `from out-cwd: ${styleOutFsPath(from)}`);
+  });
+}
+
+/**
+ * Internal function: resolves the pwd of the shell to an OutFsNode, following
+ * symlinks. Returns the node and its path with all symlinks resolved, but
+ * leaves the pwd of the shell untouched. Halts if impossible.
+ * @param ctx - The context whose shell should be resolved to a node.
+ * @param create - Whether to create missing parent directories (`true`) or
+ * error on missing parent directories (`false`).
+ * @param path - The path to originally resolve, for better error messages.
+ * @param from - The path from where to originally resolve, for better error
+ * messages.
+ */
+function resolveCwd(
+  ctx: Context,
+  create: boolean,
+  path: OutFsPath,
+  from: OutFsPath,
+): { node: OutFsNode; resolved: string[] } {
+  const shell = getState(ctx).shell;
+
+  const startPath = [...shell.cwd];
+
+  // We resolve the path by iteratively resolving the first path component.
+  let currentPath = [...startPath];
+  // The components that have already been resolved.
+  // Without symlinks, the algorithm maintains
+  // concat(resolved, currentPath) == shell.cwd
+  let resolved: string[] = [];
+  // While resolving the path, this variable stores the successive directories.
+  let currentNode: OutFsNode = { source: {}, node: shell.root };
+  // The absolute paths of the symlinks we followed, for error reporting. We
+  // give up after following too many of them, since there is probably a cycle.
+  const followedPaths: string[][] = [];
+
+  while (currentPath.length > 0) {
+    const [fst, ...rest] = currentPath;
+
+    if (!isOutDir(currentNode.node)) {
+      // We have reached a leaf file, yet the path still has more components.
+      // Time to error out.
+      logResolveFailure(ctx, path, from);
+      l.logGroup(ctx, () => {
+        l.error(
+          ctx,
+          `${
+            styleOutFsPath(absoluteOutFsPath(currentPath))
+          } is not a directory.`,
+        );
+        l.error(
+          ctx,
+          `The non-directory was created at ${
+            styleDebuggingInformation(currentNode.source)
+          }`,
+        );
+      });
+      ctx.halt();
+      throw "just halted";
+    }
+
+    // Neither leaf file nor symlink, so we are in a directory.
+    // Look up the next path component.
+    let nextNode = currentNode.node.get(fst);
+    if (nextNode === undefined) {
+      // Path component not found. Should we create the directory?
+      if (create) {
+        // Yes, create the directory and act like it always was there.
+        nextNode = {
+          source: ctx.getCurrentDebuggingInformation(),
+          node: new Map(),
+          attributes: resolveAttributes(ctx, {}),
+        };
+        currentNode.node.set(fst, nextNode);
+        getBackend(ctx).ensureDir(ctx, [...resolved, fst]);
+        applyAttributes(ctx, [...resolved, fst]);
+      } else {
+        // No, error instead of creating missing components.
+        logResolveFailure(ctx, path, from);
+        l.error(
+          ctx,
+          `  no file ${styleOutFsPath(singletonPath(fst))} in ${
+            styleOutFsPath(absoluteOutFsPath(resolved))
+          }`,
+        );
+        ctx.halt();
+        throw "just halted";
+      }
+    }
+
+    if (isOutSymlink(nextNode.node)) {
+      // Follow the symlink by replacing the resolved components and the
+      // symlink with the target of the symlink, and starting over from the
+      // root.
+      const linkPath = [...resolved, fst];
+      const link = nextNode;
+      const linkNode = nextNode.node;
+      followedPaths.push(linkPath);
+
+      if (followedPaths.length > maxSymlinkHops) {
+        logResolveFailure(ctx, path, from);
+        l.logGroup(ctx, () => {
+          l.error(
+            ctx,
+            `Followed more than ${maxSymlinkHops} symlinks, probably a cycle:`,
+          );
+          l.logGroup(ctx, () => {
+            for (const other of followedPaths) {
+              l.error(ctx, styleOutFsPath(absoluteOutFsPath(other)));
+            }
+          });
+          l.error(
+            ctx,
+            `The symlink was created at ${
+              styleDebuggingInformation(link.source)
+            }`,
+          );
+        });
+        ctx.halt();
+        throw "just halted";
+      }
+
+      const target = symlinkTarget(resolved, linkNode);
+      if (target === null) {
+        logResolveFailure(ctx, path, from);
+        l.logGroup(ctx, () => {
+          l.error(
+            ctx,
+            `The symlink ${
+              styleOutFsPath(absoluteOutFsPath(linkPath))
+            } points outside the root of the out fs:`,
+          );
+          l.error(ctx, styleOutFsPath(linkNode.target));
+          l.error(
+            ctx,
+            `The symlink was created at ${
+              styleDebuggingInformation(link.source)
+            }`,
+          );
+        });
+        ctx.halt();
+        throw "just halted";
+      }
+
+      currentPath = [...target, ...rest];
+      resolved = [];
+      currentNode = { source: {}, node: shell.root };
+      continue;
+    }
+
+    // Successfully looked up the directory, so we successfully handled the
+    // first path component. Continue the loop with the next component.
+    currentPath = rest;
+    resolved = [...resolved, fst];
+    currentNode = nextNode;
+  }
+
+  return { node: currentNode, resolved };
+}
+
+/**
+ * Error if the given node is not a directory.
+ */
+function ensureOutNodeIsDir(
+  ctx: Context,
+  node: OutFsNode,
+  path: OutFsPath,
+  from: OutFsPath,
+  resolved: OutFsPath,
+): OutDir {
+  if (isOutDir(node.node)) {
+    return node.node;
+  } else {
+    logResolveFailure(ctx, path, from);
+    l.logGroup(ctx, () => {
+      l.error(ctx, `The path resolved not to a directory but to a file:`);
+      l.error(ctx, `${styleOutFsPath(resolved)}`);
+      l.error(ctx, `File created at ${styleDebuggingInformation(node.source)}`);
+    });
+    ctx.halt();
+    throw "just halted";
+  }
+}
+
+/**
+ * To be used when somethings requires path arguments for error reporting
+ * but we know it cannot fail.
+ */
+const dummyPath = relativeOutFsPath([]);
+
+/**
+ * Describes what to do if there is already a file of some name.
+ *   - `"timid"`: Log error and halt.
+ *   - `"placid"`: Do nothing if there is already a file/directory of this name.
+ *   - `"assertive"`: Create a new empty directory at this name, no matter what.
+ */
+export type Mode = "timid" | "placid" | "assertive";
+
+/**
+ * Set the default {@linkcode Mode} and whether to clean directories for all
+ * macros in the children that do not specify them explicitly. This includes
+ * {@linkcode Dir} and {@linkcode File} macros emitted by third-party macros.
+ *
+ * @param mode - The default mode. Defaults to the mode of any enclosing
+ * `Defaults` macro, or `"timid"`.
+ * @param clean - Whether to clean directories by default. Defaults to the
+ * value of any enclosing `Defaults` macro, or `true`.
+ * @param children - The expressions to evaluate with the defaults.
+ * @returns The evaluated children.
+ */
+export function Defaults({ mode, clean, children }: {
+  mode?: Mode;
+  clean?: boolean;
+  children?: Expressions;
+}): Expression {
+  let priorDefaults = { mode: "timid" as Mode, clean: true };
+
+  return (
+    <lifecycle
+      pre={(ctx) => {
+        const state = getState(ctx);
+        priorDefaults = state.defaults;
+        state.defaults = {
+          mode: mode ?? priorDefaults.mode,
+          clean: clean ?? priorDefaults.clean,
+        };
+      }}
+      post={(ctx) => {
+        getState(ctx).defaults = priorDefaults;
+      }}
+    >
+      <fragment exps={expressions(children)} />
+    </lifecycle>
+  );
+}
+
+/**
+ * Internal function: resolve an optional mode against the current defaults.
+ */
+function defaultMode(ctx: Context, mode: Mode | undefined): Mode {
+  return mode ?? getState(ctx).defaults.mode;
+}
+
+/**
+ * Internal function: resolve an optional clean flag against the current
+ * defaults.
+ */
+function defaultClean(ctx: Context, clean: boolean | undefined): boolean {
+  return clean ?? getState(ctx).defaults.clean;
+}
+
+/**
+ * Create a directory in the current out directory, and `cd` there.
+ *
+ * @param name - The name of the directory to create.
+ * @param mode - What to do if there is already a file at this name. Defaults
+ * to the mode set by an enclosing {@linkcode Defaults} macro, or `"timid"`.
+ * @param clean - Whether to initially clean out the contents of the directory
+ * on the file system. Defaults to the value set by an enclosing
+ * {@linkcode Defaults} macro, or **`true`**.
+ * @param permissions - The Unix permission mode of the directory, such as
+ * `0o755`. Defaults to whatever the backend does.
+ * @param mtime - The modification time of the directory. Defaults to the
+ * `mtime` option of the {@linkcode ConfigOutFs}.
+ * @param children - Expressions to evaluate in the new directory.
+ * @returns The evaluated children.
+ */
+export function Dir(
+  {
+    name,
+    children: children_,
+    mode,
+    clean,
+    permissions,
+    mtime,
+  }: {
+    name: string;
+    mode?: Mode;
+    clean?: boolean;
+    permissions?: number;
+    mtime?: Date;
+    children?: Expressions;
+  },
+): Expression {
+  const children = expressions(children_);
+  // Whether to evaluate the children, i.e., no collision has been recorded.
+  let created = true;
+
+  // First, create the directory both in the OutFS and in the backend.
+  const createTheDir = (
+    <impure
+      fun={(ctx: Context) => {
+        created = createOutDir(
+          ctx,
+          currentOutDir(ctx),
+          outCwd(ctx),
+          name,
+          defaultMode(ctx, mode),
+          defaultClean(ctx, clean),
+          ctx.getCurrentDebuggingInformation(),
+          { permissions, mtime },
+        );
+        return "";
+      }}
+    />
+  );
+
+  return (
+    <map
+      fun={(_: string, _ctx: Context) => {
+        if (!created) {
+          return "";
+        }
+
+        return (
+          <Cd path={singletonPath(name)}>
+            <fragment exps={children} />
+          </Cd>
+        );
+      }}
+    >
+      {createTheDir}
+    </map>
+  );
+}
+
+/**
+ * Create a file in current out directory, write the evaluated children there.
+ *
+ * @param name - The name of the file to create.
+ * @param mode - What to do if there is already a file at this name. Defaults
+ * to the mode set by an enclosing {@linkcode Defaults} macro, or `"timid"`.
+ * @param precompress - Which compressed siblings to write next to the file,
+ * `null` for none. Defaults to the `precompress` option of the
+ * {@linkcode ConfigOutFs}.
+ * @param permissions - The Unix permission mode of the file, such as `0o755`
+ * for an executable script. Defaults to whatever the backend does.
+ * @param mtime - The modification time of the file. Defaults to the `mtime`
+ * option of the {@linkcode ConfigOutFs}.
+ * @param children - Expressions to evaluate to form the file contents.
+ * @returns The evaluated children.
+ */
+export function File(
+  {
+    name,
+    children: children_,
+    mode,
+    precompress,
+    permissions,
+    mtime,
+  }: {
+    name: string;
+    mode?: Mode;
+    precompress?: PrecompressOptions | null;
+    permissions?: number;
+    mtime?: Date;
+    children?: Expressions;
+  },
+): Expression {
+  const children = expressions(children_);
+
+  // The file in the OutFs, `null` if we do not create a new one.
+  let outFile: OutFile | null = null;
+
+  // First, create the file in the OutFS.
+  const createTheFile = (
+    <impure
+      fun={(ctx: Context) => {
+        outFile = createOutFile(
+          ctx,
+          currentOutDir(ctx),
+          outCwd(ctx),
+          name,
+          defaultMode(ctx, mode),
+          ctx.getCurrentDebuggingInformation(),
+          { permissions, mtime },
+        );
+        return <fragment exps={children} />;
+      }}
+    />
+  );
+
+  return (
+    <WithFilename name={name}>
+      <map
+        fun={(evaled: string, ctx: Context) => {
+          if (outFile !== null) {
+            const state = getState(ctx);
+            writeOutFile(ctx, outFile, [...state.shell.cwd, name], evaled);
+            writeCompressedSiblings(
+              ctx,
+              currentOutDir(ctx),
+              outCwd(ctx),
+              name,
+              evaled,
+              defaultMode(ctx, mode),
+              precompress,
+            );
+          }
+
+          return evaled;
+        }}
+      >
+        {createTheFile}
+      </map>
+    </WithFilename>
+  );
+}
+
+/**
+ * Create a binary file in the current out directory.
+ *
+ * @param name - The name of the file to create.
+ * @param mode - What to do if there is already a file at this name. Defaults
+ * to the mode set by an enclosing {@linkcode Defaults} macro, or `"timid"`.
+ * @param contents - The bytes to write, or a function that computes them. The
+ * function is called while the current out directory and
+ * {@linkcode outFilename} refer to the file.
+ * @returns The empty string.
+ */
+export function BinaryFile({ name, contents, mode }: {
+  name: string;
+  contents: Uint8Array | ((ctx: Context) => Uint8Array);
+  mode?: Mode;
+}): Expression {
+  return (
+    <WithFilename name={name}>
+      <impure
+        fun={(ctx: Context) => {
+          const outFile = createOutFile(
+            ctx,
+            currentOutDir(ctx),
+            outCwd(ctx),
+            name,
+            defaultMode(ctx, mode),
+            ctx.getCurrentDebuggingInformation(),
+          );
+
+          if (outFile !== null) {
+            const bytes = typeof contents === "function"
+              ? contents(ctx)
+              : contents;
+            const state = getState(ctx);
+            writeOutFile(ctx, outFile, [...state.shell.cwd, name], bytes);
+            writeCompressedSiblings(
+              ctx,
+              currentOutDir(ctx),
+              outCwd(ctx),
+              name,
+              bytes,
+              defaultMode(ctx, mode),
+            );
+          }
+
+          return "";
+        }}
+      />
+    </WithFilename>
+  );
+}
+
+/**
+ * Copy a file from the real file system into the current out directory.
+ *
+ * @param src - The (platform-dependent) path of the file to copy. Relative
+ * paths are resolved against the cwd of the process.
+ * @param name - The name of the file to create. Defaults to the name of the
+ * source file.
+ * @param mode - What to do if there is already a file at this name. Defaults
+ * to the mode set by an enclosing {@linkcode Defaults} macro, or `"timid"`.
+ * @returns The empty string.
+ */
+export function CopyFile({ src, name, mode }: {
+  src: string;
+  name?: string;
+  mode?: Mode;
+}): Expression {
+  const name_ = name ?? basename(src);
+
+  return (
+    <impure
+      fun={(ctx: Context) => {
+        copyFileInto(
+          ctx,
+          src,
+          currentOutDir(ctx),
+          outCwd(ctx),
+          name_,
+          defaultMode(ctx, mode),
+          ctx.getCurrentDebuggingInformation(),
+        );
+        return "";
+      }}
+    />
+  );
+}
+
+/**
+ * Copy a directory from the real file system into the current out directory,
+ * recursively. Every copied directory and file is tracked in the OutFs.
+ *
+ * @param src - The (platform-dependent) path of the directory to copy.
+ * Relative paths are resolved against the cwd of the process.
+ * @param name - The name of the directory to create. Defaults to the name of
+ * the source directory.
+ * @param mode - What to do if there is already a file at the name of any
+ * copied directory or file. Defaults to the mode set by an enclosing
+ * {@linkcode Defaults} macro, or `"timid"`.
+ * @param clean - Whether to initially clean out the contents of the copied
+ * directories on the file system. Defaults to the value set by an enclosing
+ * {@linkcode Defaults} macro, or **`true`**.
+ * @param include - A glob pattern (such as `"fonts/*.woff2"`), only files whose
+ * path relative to `src` matches it are copied. Directories that contain no
+ * matching files are skipped. Copies everything if omitted.
+ * @returns The empty string.
+ */
+export function CopyDir({ src, name, mode, clean, include }: {
+  src: string;
+  name?: string;
+  mode?: Mode;
+  clean?: boolean;
+  include?: string;
+}): Expression {
+  const name_ = name ?? basename(src);
+  const filter = include === undefined
+    ? null
+    : globToRegExp(include, { extended: true, globstar: true });
+
+  return (
+    <impure
+      fun={(ctx: Context) => {
+        const source = ctx.getCurrentDebuggingInformation();
+        const mode_ = defaultMode(ctx, mode);
+        const clean_ = defaultClean(ctx, clean);
+
+        // Recursively copy the directory at `srcDir` into `outDir` (which
+        // resides at `dirPath`) under the name `dirName`. `relative` is the
+        // path of `srcDir` relative to `src`.
+        const copyDir = (
+          srcDir: string,
+          relative: string[],
+          outDir: OutDir,
+          dirPath: OutFsPath,
+          dirName: string,
+        ) => {
+          const { files, dirs } = readSourceDir(ctx, srcDir, relative, filter);
+
+          if (filter !== null && files.length === 0 && dirs.length === 0) {
+            // Nothing matches the filter, so skip this directory.
+            return;
+          }
+
+          if (
+            !createOutDir(ctx, outDir, dirPath, dirName, mode_, clean_, source)
+          ) {
+            // The collision has been recorded by `CollectCollisions`.
+            return;
+          }
+          const newDirPath = absoluteOutFsPath([
+            ...dirPath.components,
+            dirName,
+          ]);
+          const newDir = ensureOutNodeIsDir(
+            ctx,
+            outDir.get(dirName)!,
+            singletonPath(dirName),
+            dirPath,
+            newDirPath,
+          );
+
+          for (const file of files) {
+            copyFileInto(
+              ctx,
+              join(srcDir, file),
+              newDir,
+              newDirPath,
+              file,
+              mode_,
+              source,
+            );
+          }
+
+          for (const dir of dirs) {
+            copyDir(
+              join(srcDir, dir),
+              [...relative, dir],
+              newDir,
+              newDirPath,
+              dir,
+            );
+          }
+        };
+
+        copyDir(src, [], currentOutDir(ctx), outCwd(ctx), name_);
+        return "";
+      }}
+    />
+  );
+}
+
+/**
+ * Create a symlink in the current out directory.
+ *
+ * When resolving paths in the OutFs (for example, in {@linkcode Cd}), symlinks
+ * are followed. The symlink need not point to an existing node.
+ *
+ * @param name - The name of the symlink to create.
+ * @param target - The {@linkcode OutFsPath} the symlink points to. A relative
+ * path is resolved from the current out directory. On the real file system,
+ * the symlink is always created with a relative target.
+ * @param mode - What to do if there is already a file at this name. Defaults
+ * to the mode set by an enclosing {@linkcode Defaults} macro, or `"timid"`.
+ * @returns The empty string.
+ */
+export function Symlink({ name, target, mode }: {
+  name: string;
+  target: OutFsPath;
+  mode?: Mode;
+}): Expression {
+  return (
+    <impure
+      fun={(ctx: Context) => {
+        const outDir = currentOutDir(ctx);
+        const dirPath = outCwd(ctx);
+        const path = [...dirPath.components, name];
+        const source = ctx.getCurrentDebuggingInformation();
+        const mode_ = defaultMode(ctx, mode);
+
+        if (shouldAddNode(ctx, outDir, mode_, name, dirPath, source)) {
+          // Create the symlink in the logical OutFs...
+          outDir.set(name, {
+            source,
+            node: { target: cloneOutFsPath(target) },
+            mode: mode_,
+          });
+
+          // ... and in the backend, with a relative target. That target is
+          // resolved from where the directory actually resides.
+          let relativeTarget = cloneOutFsPath(target);
+          if (target.relativity === -1) {
+            relativeTarget = relativeOutFsPath(
+              [...target.components],
+              canonicalCwd(ctx).length,
+            );
+          }
+
+          const backend = getBackend(ctx);
+          backend.ensureNot(ctx, path);
+          backend.symlink(ctx, path, relativeTarget);
+          if (dirPath.components.length > 0) {
+            applyAttributes(ctx, dirPath.components);
+          }
+        }
+
+        return "";
+      }}
+    />
+  );
+}
+
+/**
+ * Internal function: list the names of the files and directories in the real
+ * directory `srcDir` (whose path relative to the root of the copy operation is
+ * `relative`), in lexicographic order.
+ *
+ * If a `filter` is given, only lists files whose relative path matches it, and
+ * only directories that contain such files.
+ */
+function readSourceDir(
+  ctx: Context,
+  srcDir: string,
+  relative: string[],
+  filter: RegExp | null,
+): { files: string[]; dirs: string[] } {
+  const files: string[] = [];
+  const dirs: string[] = [];
+
+  let entries: Deno.DirEntry[] = [];
+  try {
+    entries = [...Deno.readDirSync(srcDir)];
+  } catch (err) {
+    diskFailure(ctx, "read directory", srcDir, err);
+  }
+  entries.sort((a, b) => a.name < b.name ? -1 : 1);
+
+  for (const entry of entries) {
+    const entryPath = join(srcDir, entry.name);
+    const entryRelative = [...relative, entry.name];
+
+    let isDirectory = false;
+    try {
+      // Follows symlinks.
+      isDirectory = Deno.statSync(entryPath).isDirectory;
+    } catch (err) {
+      diskFailure(ctx, "access", entryPath, err);
+    }
+
+    if (isDirectory) {
+      if (filter === null) {
+        dirs.push(entry.name);
+      } else {
+        const sub = readSourceDir(ctx, entryPath, entryRelative, filter);
+        if (sub.files.length > 0 || sub.dirs.length > 0) {
+          dirs.push(entry.name);
+        }
+      }
+    } else if (filter === null || filter.test(entryRelative.join("/"))) {
+      files.push(entry.name);
+    }
+  }
+
+  return { files, dirs };
+}
+
+/**
+ * Internal function: copy the file at the real path `src` to a file of the
+ * given name in `outDir` (which resides at the absolute path `dirPath`).
+ */
+function copyFileInto(
+  ctx: Context,
+  src: string,
+  outDir: OutDir,
+  dirPath: OutFsPath,
+  name: string,
+  mode: Mode,
+  source: DebuggingInformation,
+) {
+  let bytes = new Uint8Array();
+  try {
+    bytes = Deno.readFileSync(src);
+  } catch (err) {
+    diskFailure(ctx, "read file", src, err);
+  }
+
+  const outFile = createOutFile(ctx, outDir, dirPath, name, mode, source);
+  if (outFile !== null) {
+    writeOutFile(ctx, outFile, [...dirPath.components, name], bytes);
+    writeCompressedSiblings(ctx, outDir, dirPath, name, bytes, mode);
+  }
+}
+
+/**
+ * Internal macro: set the name of the current file for the evaluation of the
+ * children.
+ */
+function WithFilename({ name, children }: {
+  name: string;
+  children?: Expressions;
+}): Expression {
+  let priorFilename: string | null = "";
+
+  return (
+    <lifecycle
+      pre={(ctx) => {
+        const shell = getState(ctx).shell;
+        priorFilename = shell.filename;
+        shell.filename = name;
+      }}
+      post={(ctx) => {
+        getState(ctx).shell.filename = priorFilename;
+      }}
+    >
+      <fragment exps={expressions(children)} />
+    </lifecycle>
+  );
+}
+
+/**
+ * Internal function: get the current out directory (cannot fail).
+ */
+function currentOutDir(ctx: Context): OutDir {
+  const { node } = resolveCwd(ctx, false, dummyPath, dummyPath);
+  return ensureOutNodeIsDir(
+    ctx,
+    node,
+    dummyPath,
+    dummyPath,
+    outCwd(ctx),
+  );
+}
+
+/**
+ * Internal function: get the current out directory with all symlinks
+ * resolved, i.e., where it actually resides (cannot fail).
+ */
+function canonicalCwd(ctx: Context): string[] {
+  return resolveCwd(ctx, false, dummyPath, dummyPath).resolved;
+}
+
+/**
+ * Internal function: create a directory of the given name in `outDir` (which
+ * resides at the absolute path `dirPath`), both in the OutFs and in the
+ * backend.
+ *
+ * Returns `false` if the directory collided with an existing node and the
+ * collision was recorded for a {@linkcode CollectCollisions} macro, in which
+ * case the contents of the directory should not be created.
+ */
+function createOutDir(
+  ctx: Context,
+  outDir: OutDir,
+  dirPath: OutFsPath,
+  name: string,
+  mode: Mode,
+  clean: boolean,
+  source: DebuggingInformation,
+  attributes: OutFsAttributes = {},
+): boolean {
+  const backend = getBackend(ctx);
+  const path = [...dirPath.components, name];
+  const existed = outDir.has(name);
+
+  if (shouldAddNode(ctx, outDir, mode, name, dirPath, source)) {
+    // Time to create an empty directory:
+    // in the logical OutFs...
+    outDir.set(name, {
+      source,
+      node: new Map(),
+      attributes: resolveAttributes(ctx, attributes),
+      mode,
+    });
+    // ... and in the backend.
+    const incremental = getState(ctx).incremental;
+    if (clean && incremental === null) {
+      backend.emptyDir(ctx, path);
+    } else {
+      backend.ensureDir(ctx, path);
+      if (clean) {
+        // Rather than cleaning the directory now, remove only what is stale
+        // at the end of the incremental build.
+        incremental!.reconcile.push({
+          dir: outDir.get(name)!.node as OutDir,
+          path,
+        });
+      }
+    }
+    applyAttributes(ctx, path);
+    const event = existed ? "overwritten" : "added";
+    fireHooks(ctx, event, path, "dir", source, null);
+    return true;
+  } else if (mode === "placid") {
+    if (isOutDir(outDir.get(name)!.node)) {
+      // Never replace a file or symlink that is part of the OutFs.
+      backend.ensureDir(ctx, path);
+    }
+    fireHooks(ctx, "skipped", path, "dir", source, null);
+    return true;
+  } else {
+    // A timid collision, recorded by `shouldAddNode`.
+    return false;
+  }
+}
+
+/**
+ * Internal function: create a file of the given name in `outDir` (which
+ * resides at the absolute path `dirPath`), both in the OutFs and (by deleting
+ * any prior version, unless building incrementally) in the backend. Returns
+ * `null` if the mode says to keep an existing file instead.
+ */
+function createOutFile(
+  ctx: Context,
+  outDir: OutDir,
+  dirPath: OutFsPath,
+  name: string,
+  mode: Mode,
+  source: DebuggingInformation,
+  attributes: OutFsAttributes = {},
+): OutFile | null {
+  const existed = outDir.has(name);
+
+  if (shouldAddNode(ctx, outDir, mode, name, dirPath, source)) {
+    // Create the file in the logical OutFs.
+    const outFile: OutFile = {
+      size: null,
+      hash: null,
+      contents: null,
+      contributed: null,
+      overwrote: existed,
+      source,
+    };
+    outDir.set(name, {
+      source,
+      node: outFile,
+      attributes: resolveAttributes(ctx, attributes),
+      mode,
+    });
+    // Delete any prior version of the file from the backend. Incremental
+    // builds compare against the prior version when writing instead.
+    if (getState(ctx).incremental === null) {
+      getBackend(ctx).ensureNot(ctx, [...dirPath.components, name]);
+    }
+    return outFile;
+  } else {
+    if (mode === "placid") {
+      const path = [...dirPath.components, name];
+      fireHooks(ctx, "skipped", path, "file", source, null);
+    }
+    return null;
+  }
+}
+
+/**
+ * Internal function: write the final contents of a file to the backend, and
+ * record them in the OutFs. In incremental builds, leaves the file untouched
+ * if the backend already stores the same contents.
+ */
+function writeOutFile(
+  ctx: Context,
+  outFile: OutFile,
+  path: string[],
+  contents: string | Uint8Array,
+) {
+  const backend = getBackend(ctx);
+
+  let unchanged = false;
+  if (getState(ctx).incremental !== null) {
+    const prior = backend.readFile(ctx, path);
+    if (prior === null) {
+      // There might be a directory or symlink in the way.
+      backend.ensureNot(ctx, path);
+    } else {
+      unchanged = bytesEqual(prior, encodeContents(contents));
+    }
+  }
+
+  if (!unchanged) {
+    if (typeof contents === "string") {
+      backend.writeTextFile(ctx, path, contents);
+    } else {
+      backend.writeFile(ctx, path, contents);
+    }
+  }
+  applyAttributes(ctx, path);
+
+  recordFileContents(ctx, outFile, contents);
+  fireHooks(
+    ctx,
+    outFile.overwrote ? "overwritten" : "added",
+    path,
+    "file",
+    outFile.source,
+    contents,
+  );
+}
+
+/**
+ * Internal function: combine explicitly given attributes with the configured
+ * defaults.
+ */
+function resolveAttributes(
+  ctx: Context,
+  attributes: OutFsAttributes,
+): OutFsAttributes {
+  return {
+    permissions: attributes.permissions,
+    mtime: attributes.mtime ?? getConfig(ctx).mtime ?? undefined,
+  };
+}
+
+/**
+ * Internal function: apply the attributes of the node at the absolute `path`
+ * via the backend, and reapply those of its parent directory, whose mtime
+ * changes whenever its entries change.
+ */
+function applyAttributes(ctx: Context, path: string[]) {
+  const backend = getBackend(ctx);
+  if (backend.setAttributes === undefined) {
+    return;
+  }
+
+  const paths = path.length > 1 ? [path, path.slice(0, -1)] : [path];
+  for (const p of paths) {
+    const attributes = lookupNode(ctx, absoluteOutFsPath(p))?.attributes;
+    if (
+      attributes !== undefined &&
+      (attributes.permissions !== undefined || attributes.mtime !== undefined)
+    ) {
+      backend.setAttributes(ctx, p, attributes);
+    }
+  }
+}
+
+function encodeContents(contents: string | Uint8Array): Uint8Array {
+  return typeof contents === "string"
+    ? new TextEncoder().encode(contents)
+    : contents;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+/**
+ * Internal function: record the final contents of a file in the OutFs.
+ */
+function recordFileContents(
+  ctx: Context,
+  outFile: OutFile,
+  contents: string | Uint8Array,
+) {
+  const bytes = encodeContents(contents);
+  outFile.size = bytes.length;
+  outFile.hash = createHash("sha256").update(bytes).digest("hex");
+  if (getConfig(ctx).retainContents) {
+    outFile.contents = contents;
+  }
+}
+
+/**
+ * Internal function: write the precompressed siblings of the file of the given
+ * name in `outDir` (which resides at the absolute path `dirPath`), as
+ * configured by `options` (or the {@linkcode ConfigOutFs} if `undefined`).
+ */
+function writeCompressedSiblings(
+  ctx: Context,
+  outDir: OutDir,
+  dirPath: OutFsPath,
+  name: string,
+  contents: string | Uint8Array,
+  mode: Mode,
+  options?: PrecompressOptions | null,
+) {
+  const resolved = options === undefined ? getConfig(ctx).precompress : options;
+  if (resolved === null) {
+    return;
+  }
+
+  const {
+    gzip = true,
+    brotli = true,
+    minSize = 1024,
+    extensions = [
+      ".html",
+      ".css",
+      ".js",
+      ".mjs",
+      ".json",
+      ".svg",
+      ".txt",
+      ".xml",
+    ],
+  } = resolved;
+
+  const bytes = encodeContents(contents);
+  if (
+    bytes.length < minSize ||
+    !extensions.some((extension) => name.endsWith(extension))
+  ) {
+    return;
+  }
+
+  const { source, attributes } = outDir.get(name)!;
+  const siblings: [string, (bytes: Uint8Array) => Uint8Array][] = [];
+  if (gzip) {
+    siblings.push([".gz", (bytes) => gzipSync(bytes, { level: 9 })]);
+  }
+  if (brotli) {
+    siblings.push([".br", (bytes) => brotliCompressSync(bytes)]);
+  }
+
+  for (const [extension, compress] of siblings) {
+    const siblingName = `${name}${extension}`;
+    const outFile = createOutFile(
+      ctx,
+      outDir,
+      dirPath,
+      siblingName,
+      mode,
+      source,
+      attributes,
+    );
+    if (outFile !== null) {
+      writeOutFile(
+        ctx,
+        outFile,
+        [...dirPath.components, siblingName],
+        new Uint8Array(compress(bytes)),
+      );
+    }
+  }
+}
+
+/**
+ * Internal function: describe why `name` is not a valid name for a file or
+ * directory, or return `null` if it is valid.
+ */
+function nameProblem(name: string): string | null {
+  if (name === "") {
+    return `Names must not be empty.`;
+  } else if (name === "." || name === "..") {
+    return `Names must not be ${Colors.yellow(".")} or ${
+      Colors.yellow("..")
+    }, use the relativity of an OutFsPath instead.`;
+  } else if (name.includes("/")) {
+    return `Names must not contain ${Colors.yellow("/")}.`;
+  } else if (name.includes("\0")) {
+    return `Names must not contain null bytes.`;
+  } else {
+    return null;
+  }
+}
+
+const windowsReserved = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+const unportableCharacters = /[<>:"\\|?*\x00-\x1f]/;
+
+/**
+ * Internal function: describe all portability issues of `name`.
+ */
+function portabilityProblems(name: string): string[] {
+  const problems: string[] = [];
+
+  if (windowsReserved.test(name)) {
+    problems.push(`The name is reserved on Windows.`);
+  }
+  if (unportableCharacters.test(name)) {
+    problems.push(
+      `The name contains characters that are invalid on some file systems (${
+        Colors.yellow(`<>:"\\|?*`)
+      } or control characters).`,
+    );
+  }
+  if (name.endsWith(".") || name.endsWith(" ")) {
+    problems.push(`The name ends with a dot or space, which Windows strips.`);
+  }
+
+  return problems;
+}
+
+/**
+ * Internal function: halt if `name` is not a valid name for a new node in
+ * `outDir` (which resides at `dirPath`). If so configured, also warn about
+ * portability issues.
+ */
+function validateName(
+  ctx: Context,
+  outDir: OutDir,
+  name: string,
+  dirPath: OutFsPath,
+) {
+  const problem = nameProblem(name);
+  if (problem !== null) {
+    l.error(
+      ctx,
+      `Cannot create ${Colors.yellow(JSON.stringify(name))} in ${
+        styleOutFsPath(dirPath)
+      }`,
+    );
+    l.logGroup(ctx, () => {
+      l.error(ctx, problem);
+    });
+    ctx.halt();
+    throw "just halted";
+  }
+
+  if (!getConfig(ctx).portability) {
+    return;
+  }
+
+  const problems = portabilityProblems(name);
+  for (const [other, node] of outDir) {
+    if (other !== name && other.toLowerCase() === name.toLowerCase()) {
+      problems.push(
+        `The name differs only in capitalization from ${
+          styleOutFsPath(singletonPath(other))
+        }, created at ${styleDebuggingInformation(node.source)}`,
+      );
+    }
+  }
+
+  if (problems.length > 0) {
+    l.warn(
+      ctx,
+      `Unportable name ${styleOutFsPath(singletonPath(name))} in ${
+        styleOutFsPath(dirPath)
+      }`,
+    );
+    l.logGroup(ctx, () => {
+      for (const problem of problems) {
+        l.warn(ctx, problem);
+      }
+    });
+  }
+}
+
+function shouldAddNode(
+  ctx: Context,
+  outDir: OutDir,
+  mode: Mode,
+  name: string,
+  dirPath: OutFsPath,
+  source: DebuggingInformation,
+): boolean {
+  validateName(ctx, outDir, name, dirPath);
+
+  // Add a new directory to the current directory.
+  if (outDir.has(name)) {
+    // We already have a node at this name.
+    const collisions = getState(ctx).collisions;
+
+    if (mode === "timid" && collisions !== null) {
+      // Report the collision later, keep the existing node for now.
+      const existing = outDir.get(name)!;
+      collisions.push({
+        path: absoluteOutFsPath([...dirPath.components, name]),
+        existingSource: existing.source,
+        existingMode: existing.mode ?? null,
+        source,
+        mode,
+      });
+      return false;
+    } else if (mode === "timid") {
+      // Immediately error out.
+      l.error(
+        ctx,
+        `Cannot create ${styleOutFsPath(singletonPath(name))} in ${
+          styleOutFsPath(dirPath)
+        }`,
+      );
+      l.logGroup(ctx, () => {
+        l.error(
+          ctx,
+          `File ${styleOutFsPath(singletonPath(name))} already exists.`,
+        );
+        const existing = outDir.get(name)!;
+        l.error(
+          ctx,
+          `Created at ${styleDebuggingInformation(existing.source)}`,
+        );
+        if (isOutFile(existing.node) && existing.node.contributed !== null) {
+          for (const contribution of existing.node.contributed.contributions) {
+            l.error(
+              ctx,
+              `Contributed to at ${
+                styleDebuggingInformation(contribution.source)
+              }`,
+            );
+          }
+        }
+      });
+      ctx.halt();
+      throw "unreachable";
+    } else if (mode === "placid") {
+      return false;
+    } else {
+      return true;
+    }
+  } else {
+    return true;
+  }
+}
+
+/**
+ * A reference to a path in the OutFs, recorded by {@linkcode outLink}.
+ */
+type OutLink = {
+  /**
+   * The absolute path of the file (or directory) containing the link.
+   */
+  from: OutFsPath;
+  /**
+   * The absolute path that is linked to.
+   */
+  target: OutFsPath;
+  /**
+   * What the target must be, or `null` if it may be either.
+   */
+  kind: "file" | "dir" | null;
+  /**
+   * The macro that created the link.
+   */
+  source: DebuggingInformation;
+};
+
+/**
+ * Record a link from the current file to `target`, and return an href for it
+ * (as computed by {@linkcode outHref}).
+ *
+ * A {@linkcode CheckLinks} macro wrapping the evaluation reports links whose
+ * target does not exist once everything has been evaluated.
+ *
+ * @param target - The path to link to, relative paths are resolved from the
+ * current out directory.
+ * @param kind - Whether the target must be a `"file"` or a `"dir"`. Allows
+ * both if omitted.
+ */
+export function outLink(
+  ctx: Context,
+  target: OutFsPath,
+  kind?: "file" | "dir",
+): string {
+  getState(ctx).links.push({
+    from: outFullPath(ctx),
+    target: resolveRelativePath(ctx, target),
+    kind: kind ?? null,
+    source: ctx.getCurrentDebuggingInformation(),
+  });
+
+  return outHref(ctx, target);
+}
+
+/**
+ * Link to `path`: evaluates to an href from the current out directory to
+ * `path`, and records the link for checking by {@linkcode CheckLinks}.
+ *
+ * @param path - The path to link to, relative paths are resolved from the
+ * current out directory.
+ * @param kind - Whether the target must be a `"file"` or a `"dir"`. Allows
+ * both if omitted.
+ * @returns The href.
+ */
+export function LinkTo({ path, kind }: {
+  path: OutFsPath;
+  kind?: "file" | "dir";
+}): Expression {
+  return <impure fun={(ctx: Context) => outLink(ctx, path, kind)} />;
+}
+
+/**
+ * Evaluate the children, then check that all links recorded via
+ * {@linkcode outLink} or {@linkcode LinkTo} while evaluating the children
+ * point to existing nodes of the expected kind. Logs an error for every
+ * dangling link and halts if there were any.
+ *
+ * Should wrap everything that creates the link targets.
+ *
+ * @param children - The expressions to evaluate before checking.
+ * @returns The evaluated children.
+ */
+export function CheckLinks(
+  { children }: { children?: Expressions },
+): Expression {
+  // The number of links recorded before evaluating the children.
+  let start: number | null = null;
+  const afterChecks = createAfterChecks();
+
+  return (
+    <map
+      fun={(evaled: string, ctx: Context) => {
+        let dangling = 0;
+
+        for (const link of getState(ctx).links.slice(start ?? 0)) {
+          const node = lookupNode(ctx, link.target);
+          const kind = node === null ? null : nodeKind(node.node);
+
+          if (kind === null || (link.kind !== null && kind !== link.kind)) {
+            dangling += 1;
+            l.error(
+              ctx,
+              `Dangling link from ${styleOutFsPath(link.from)} to ${
+                styleOutFsPath(link.target)
+              }`,
+            );
+            l.logGroup(ctx, () => {
+              if (kind === null) {
+                l.error(ctx, `There is no file or directory at the target.`);
+              } else {
+                l.error(
+                  ctx,
+                  `Expected a ${link.kind}, but the target is a ${kind}.`,
+                );
+                l.error(
+                  ctx,
+                  `The target was created at ${
+                    styleDebuggingInformation(node!.source)
+                  }`,
+                );
+              }
+              l.error(
+                ctx,
+                `Linked at ${styleDebuggingInformation(link.source)}`,
+              );
+            });
+          }
+        }
+
+        if (dangling > 0) {
+          l.error(ctx, `Found ${dangling} dangling link(s).`);
+          ctx.halt();
+          throw "just halted";
+        }
+
+        afterChecks.run(ctx);
+        return evaled;
+      }}
+    >
+      <lifecycle
+        pre={(ctx) => {
+          if (start === null) {
+            start = getState(ctx).links.length;
+          }
+          afterChecks.pre(ctx);
+        }}
+        post={afterChecks.post}
+      >
+        <fragment exps={expressions(children)} />
+      </lifecycle>
+    </map>
+  );
+}
+
+/**
+ * A description of a single node in the OutFs, as listed by
+ * {@linkcode outManifest}.
+ */
+export type ManifestEntry = {
+  /**
+   * The absolute path of the node, rendered via {@linkcode renderOutFsPath}.
+   */
+  path: string;
+  kind: OutFsNodeKind;
+  /**
+   * The size of a file in bytes, `null` for other kinds of nodes.
+   */
+  size: number | null;
+  /**
+   * The hex-encoded SHA-256 hash of the contents of a file, `null` for other
+   * kinds of nodes.
+   */
+  hash: string | null;
+  /**
+   * The target of a symlink (rendered via {@linkcode renderOutFsPath}), `null`
+   * for other kinds of nodes.
+   */
+  target: string | null;
+  /**
+   * The macro that created the node.
+   */
+  source: DebuggingInformation;
+};
+
+/**
+ * List every node of the OutFs (except for the root directory), in
+ * depth-first order, with the entries of each directory ordered by name.
+ */
+export function outManifest(ctx: Context): ManifestEntry[] {
+  const entries: ManifestEntry[] = [];
+
+  walkOutDir(getState(ctx).shell.root, [], (path, { source, node }) => {
+    entries.push({
+      path: renderOutFsPath(absoluteOutFsPath(path)),
+      kind: nodeKind(node),
+      size: isOutFile(node) ? node.size : null,
+      hash: isOutFile(node) ? node.hash : null,
+      target: isOutSymlink(node) ? renderOutFsPath(node.target) : null,
+      source,
+    });
+  });
+
+  return entries;
+}
+
+/**
+ * Evaluate the children, then write a JSON manifest of the whole OutFs (as
+ * computed by {@linkcode outManifest}) to the real file system.
+ *
+ * @param dest - The (platform-dependent) path to write the manifest to.
+ * Relative paths are resolved against the cwd of the process. This is
+ * independent of the OutFs and its backend.
+ * @param children - The expressions to evaluate before writing the manifest.
+ * @returns The evaluated children.
+ */
+export function Manifest({ dest, children }: {
+  dest: string;
+  children?: Expressions;
+}): Expression {
+  return (
+    <map
+      fun={(evaled: string, ctx: Context) => {
+        if (getState(ctx).dryRun) {
+          l.info(ctx, `Would write the manifest to ${Colors.yellow(dest)}`);
+          return evaled;
+        }
+
+        const manifest = JSON.stringify(outManifest(ctx), null, 2);
+        try {
+          Deno.writeTextFileSync(dest, manifest);
+        } catch (err) {
+          diskFailure(ctx, "write manifest", dest, err);
+        }
+
+        return evaled;
+      }}
+    >
+      <fragment exps={expressions(children)} />
+    </map>
+  );
+}
+
+/**
+ * Evaluate the children, then delete everything from the backend that is not
+ * part of the OutFs, for example files produced by prior builds that are not
+ * produced anymore.
+ *
+ * Careful: this considers *everything* below the {@linkcode outMount}. Hence,
+ * pruning the disk halts if the mount is the cwd of the process or one of its
+ * ancestors.
+ *
+ * @param dry - If `true`, only report what would be deleted (as warnings)
+ * rather than deleting anything. Defaults to `false`.
+ * @param ignore - Glob patterns (such as `".git"` or `"CNAME"`) of paths
+ * (relative to the mount, without a leading slash) to never delete. Ignored
+ * directories are not descended into.
+ * @param children - The expressions to evaluate before pruning.
+ * @returns The evaluated children.
+ */
+export function Prune({ dry = false, ignore = [], children }: {
+  dry?: boolean;
+  ignore?: string[];
+  children?: Expressions;
+}): Expression {
+  const ignored = ignore.map((pattern) =>
+    globToRegExp(pattern, { extended: true, globstar: true })
+  );
+
+  return (
+    <map
+      fun={(evaled: string, ctx: Context) => {
+        if (!dry && getConfig(ctx).backend === diskBackend) {
+          ensureMountExcludesCwd(
+            ctx,
+            "prune",
+            "so pruning would delete your project",
+          );
+        }
+
+        pruneStale(ctx, getState(ctx).shell.root, [], true, dry, ignored);
+        return evaled;
+      }}
+    >
+      <fragment exps={expressions(children)} />
+    </map>
+  );
+}
+
+/**
+ * Internal function: halt if the mount is the cwd of the process or one of its
+ * ancestors, because the `action` (phrased to follow "Cannot") would affect the
+ * whole project. The `consequence` completes the explanation.
+ */
+function ensureMountExcludesCwd(
+  ctx: Context,
+  action: string,
+  consequence: string,
+) {
+  const mount = outMount(ctx);
+  const fromMount = relative(mount, resolve(Deno.cwd()));
+  if (!fromMount.startsWith("..") && !isAbsolute(fromMount)) {
+    l.error(
+      ctx,
+      `Cannot ${action} the out fs mounted at ${Colors.yellow(mount)}`,
+    );
+    l.logGroup(ctx, () => {
+      l.error(ctx, `The mount point contains the cwd, ${consequence}.`);
+      l.error(ctx, `Configure a different mount via the ConfigOutFs macro.`);
+    });
+    ctx.halt();
+    throw "just halted";
+  }
+}
+
+/**
+ * Internal function: delete everything from the directory at `dirPath` in the
+ * backend that is not part of the corresponding `dir` in the OutFs.
+ *
+ * @param recursive - Whether to descend into directories that exist both in
+ * the backend and in the OutFs.
+ * @param dry - Whether to merely warn about stale nodes instead of deleting
+ * them.
+ * @param ignored - Regexes for paths (relative to the mount) to leave alone.
+ */
+function pruneStale(
+  ctx: Context,
+  dir: OutDir,
+  dirPath: string[],
+  recursive: boolean,
+  dry: boolean,
+  ignored: RegExp[],
+) {
+  const backend = getBackend(ctx);
+  const entries = backend.readDir(ctx, dirPath) ?? [];
+  entries.sort((a, b) => a.name < b.name ? -1 : 1);
+
+  for (const entry of entries) {
+    const path = [...dirPath, entry.name];
+    if (ignored.some((regex) => regex.test(path.join("/")))) {
+      continue;
+    }
+
+    const node = dir.get(entry.name);
+    if (node === undefined) {
+      const styled = styleOutFsPath(absoluteOutFsPath(path));
+      if (dry) {
+        l.warn(ctx, `Stale ${entry.kind} ${styled} would be pruned.`);
+      } else {
+        l.info(ctx, `Pruning stale ${entry.kind} ${styled}`);
+        backend.ensureNot(ctx, path);
+        if (dirPath.length > 0) {
+          applyAttributes(ctx, dirPath);
+        }
+      }
+    } else if (recursive && isOutDir(node.node) && entry.kind === "dir") {
+      pruneStale(ctx, node.node, path, recursive, dry, ignored);
+    }
+  }
+}
+
+/**
+ * Build the children incrementally: rather than deleting and rewriting all
+ * output, `File`s (and the other file-creating macros) leave files untouched
+ * whose contents did not change, and `Dir`s do not wipe their contents but
+ * instead delete only stale entries (anywhere in their subtree) after all
+ * children have been evaluated.
+ *
+ * This keeps modification times of unchanged files intact, which makes
+ * subsequent syncing or uploading of the output cheaper.
+ *
+ * @param children - The expressions to evaluate incrementally.
+ * @returns The evaluated children.
+ */
+export function Incremental(
+  { children }: { children?: Expressions },
+): Expression {
+  // The bookkeeping for this macro, shared by all rounds of evaluation of the
+  // children.
+  const incremental: { reconcile: { dir: OutDir; path: string[] }[] } = {
+    reconcile: [],
+  };
+  let alreadyIncremental = false;
+  let priorIncremental: typeof incremental | null = null;
+
+  return (
+    <map
+      fun={(evaled: string, ctx: Context) => {
+        if (alreadyIncremental) {
+          // An enclosing `Incremental` macro does the reconciliation.
+          return evaled;
+        }
+
+        for (const { dir, path } of incremental.reconcile) {
+          // Skip directories that have been replaced in the meantime.
+          if (lookupNode(ctx, absoluteOutFsPath(path))?.node === dir) {
+            // Recursively, since a full build would have wiped the subtree,
+            // including directories that are not reconciled themselves.
+            pruneStale(ctx, dir, path, true, false, []);
+          }
+        }
+
+        return evaled;
+      }}
+    >
+      <lifecycle
+        pre={(ctx) => {
+          const state = getState(ctx);
+          priorIncremental = state.incremental;
+          alreadyIncremental = priorIncremental !== null;
+          if (!alreadyIncremental) {
+            state.incremental = incremental;
+          }
+        }}
+        post={(ctx) => {
+          getState(ctx).incremental = priorIncremental;
+        }}
+      >
+        <fragment exps={expressions(children)} />
+      </lifecycle>
+    </map>
+  );
+}
+
+/**
+ * An entry of a directory in the OutFs, as passed to the function of a
+ * {@linkcode DirIndex} macro.
+ */
+export type OutDirEntry = {
+  name: string;
+  /**
+   * The absolute path of the entry.
+   */
+  path: OutFsPath;
+  kind: OutFsNodeKind;
+  /**
+   * The macro that created the entry.
+   */
+  source: DebuggingInformation;
+};
+
+/**
+ * Defer the evaluation of `fun` until the rest of the evaluation cannot make
+ * any more progress, i.e., until the OutFs has settled. Multiple such macros
+ * may be evaluated in the same round.
+ *
+ * @param fun - Computes the expression to evaluate to, once the OutFs has
+ * settled. May return `null` to wait until the OutFs settles again.
+ * @returns The evaluated result of `fun`.
+ */
+export function AfterOutFs(
+  { fun }: { fun: (ctx: Context) => Expression | null },
+): Expression {
+  return (
+    <impure
+      fun={(ctx: Context) => {
+        if (ctx.mustMakeProgress()) {
+          return fun(ctx);
+        } else {
+          return null;
+        }
+      }}
+    />
+  );
+}
+
+/**
+ * Once the OutFs has settled (see {@linkcode AfterOutFs}), list the final
+ * contents of the current out directory. Useful for rendering directory
+ * listings, tables of contents, or feeds.
+ *
+ * @param fun - Receives the entries of the current out directory (ordered by
+ * name), and computes the expression to evaluate to.
+ * @returns The evaluated result of `fun`.
+ */
+export function DirIndex(
+  { fun }: { fun: (entries: OutDirEntry[], ctx: Context) => Expression },
+): Expression {
+  return (
+    <AfterOutFs
+      fun={(ctx) => {
+        const cwd = outCwd(ctx);
+        const dir = currentOutDir(ctx);
+
+        const entries = [...dir.keys()].sort().map((name) => {
+          const { source, node } = dir.get(name)!;
+          return {
+            name,
+            path: absoluteOutFsPath([...cwd.components, name]),
+            kind: nodeKind(node),
+            source,
+          };
+        });
+
+        return fun(entries, ctx);
+      }}
+    />
+  );
+}
+
+/**
+ * Bookkeeping for a file assembled by {@linkcode Contribute} macros.
+ */
+type Contributed = {
+  separator: string;
+  contributions: Contribution[];
+  /**
+   * Whether the file has been written already.
+   */
+  written: boolean;
+};
+
+/**
+ * A single contribution to a file.
+ */
+type Contribution = {
+  order: number;
+  /**
+   * `null` while the contribution is still being evaluated.
+   */
+  contents: string | null;
+  source: DebuggingInformation;
+};
+
+/**
+ * Contribute to a file in the current out directory that several macros can
+ * contribute to, such as a shared stylesheet or a `robots.txt`. Once the OutFs
+ * has settled (see {@linkcode AfterOutFs}) and all contributions have been
+ * evaluated, the file is written once, with the contributions joined by a
+ * separator.
+ *
+ * Creating a file of the same name with any other macro is a collision, like
+ * creating two files of the same name. All contributors are reported in the
+ * resulting error message. Contributing to a file after it has been written
+ * (for example, from within an {@linkcode AfterOutFs} macro) is an error.
+ *
+ * @param name - The name of the file to contribute to.
+ * @param order - Contributions are sorted by ascending order, ties are broken
+ * by evaluation order. Defaults to `0`.
+ * @param separator - The string to join the contributions with. All
+ * contributions to the same file must use the same separator. Defaults to
+ * `"\n"`.
+ * @param children - Expressions to evaluate to form the contribution.
+ * @returns The empty string.
+ */
+export function Contribute(
+  { name, order = 0, separator = "\n", children }: {
+    name: string;
+    order?: number;
+    separator?: string;
+    children?: Expressions;
+  },
+): Expression {
+  // Set once the contribution has been registered.
+  let contribution: Contribution | null = null;
+  let outFile: OutFile | null = null;
+
+  // Register the (pending) contribution, creating the file if necessary.
+  const register = (
+    <impure
+      fun={(ctx: Context) => {
+        const outDir = currentOutDir(ctx);
+        const dirPath = outCwd(ctx);
+        const source = ctx.getCurrentDebuggingInformation();
+        const existing = outDir.get(name);
+
+        if (
+          existing !== undefined && isOutFile(existing.node) &&
+          existing.node.contributed !== null
+        ) {
+          outFile = existing.node;
+          if (outFile.contributed!.separator !== separator) {
+            l.error(
+              ctx,
+              `Cannot contribute to ${
+                styleOutFsPath(absoluteOutFsPath([...dirPath.components, name]))
+              } with a different separator.`,
+            );
+            l.logGroup(ctx, () => {
+              l.error(
+                ctx,
+                `Expected ${
+                  Colors.yellow(JSON.stringify(outFile!.contributed!.separator))
+                }, got ${Colors.yellow(JSON.stringify(separator))}`,
+              );
+              l.error(
+                ctx,
+                `The file was created at ${
+                  styleDebuggingInformation(existing.source)
+                }`,
+              );
+            });
+            ctx.halt();
+            throw "just halted";
+          }
+
+          if (outFile.contributed!.written) {
+            l.error(
+              ctx,
+              `Cannot contribute to ${
+                styleOutFsPath(absoluteOutFsPath([...dirPath.components, name]))
+              } after it has been written.`,
+            );
+            l.logGroup(ctx, () => {
+              l.error(
+                ctx,
+                `Contributions must be registered before the out fs settles.`,
+              );
+              l.error(
+                ctx,
+                `The file was created at ${
+                  styleDebuggingInformation(existing.source)
+                }`,
+              );
+            });
+            ctx.halt();
+            throw "just halted";
+          }
+        } else {
+          // Errors on collisions, unless collecting them.
+          outFile = createOutFile(ctx, outDir, dirPath, name, "timid", source);
+          if (outFile === null) {
+            return "";
+          }
+          outFile.contributed = {
+            separator,
+            contributions: [],
+            written: false,
+          };
+        }
+
+        contribution = { order, contents: null, source };
+        outFile!.contributed!.contributions.push(contribution);
+
+        return <fragment exps={expressions(children)} />;
+      }}
+    />
+  );
+
+  return (
+    <>
+      <map
+        fun={(evaled: string, _ctx: Context) => {
+          if (contribution !== null) {
+            contribution.contents = evaled;
+          }
+          return "";
+        }}
+      >
+        {register}
+      </map>
+      <AfterOutFs
+        fun={(ctx) => {
+          if (outFile === null) {
+            // A collision has been recorded by `CollectCollisions`.
+            return "";
+          }
+
+          const contributed = outFile.contributed!;
+          if (contributed.written) {
+            return "";
+          }
+
+          const contributions = contributed.contributions;
+          if (contributions.some(({ contents }) => contents === null)) {
+            // Wait for the remaining contributions.
+            return null;
+          }
+
+          const path = [...outCwd(ctx).components, name];
+          if (lookupNode(ctx, absoluteOutFsPath(path))?.node !== outFile) {
+            // The file has been replaced by an assertive macro.
+            return "";
+          }
+
+          const sorted = [...contributions].sort((a, b) => a.order - b.order);
+          const contents = sorted.map(({ contents }) => contents!).join(
+            contributed.separator,
+          );
+          writeOutFile(ctx, outFile!, path, contents);
+          writeCompressedSiblings(
+            ctx,
+            currentOutDir(ctx),
+            outCwd(ctx),
+            name,
+            contents,
+            "timid",
+          );
+          contributed.written = true;
+
+          return "";
+        }}
+      />
+    </>
+  );
+}
+
+/**
+ * Create a file whose name includes a hash of its contents, such as
+ * `app.3f2a9c1b.js`, for cache busting. The children are evaluated first,
+ * then the name is derived from the logical `name` and the hash.
+ *
+ * Other macros can look up the actual path via {@linkcode outHashedPath}.
+ *
+ * @param name - The logical name of the file, such as `app.js`.
+ * @param pattern - How to derive the actual name: `[name]` is replaced with
+ * the logical name without its extension, `[ext]` with the extension
+ * (including the dot), and `[hash]` with the hex-encoded SHA-256 hash of the
+ * contents. Defaults to `"[name].[hash][ext]"`.
+ * @param hashLength - How many characters of the hash to use. Defaults to `8`.
+ * @param mode - What to do if there is already a file at the actual name.
+ * Defaults to the mode set by an enclosing {@linkcode Defaults} macro, or
+ * `"timid"`.
+ * @param children - Expressions to evaluate to form the file contents.
+ * @returns The evaluated children.
+ */
+export function HashedFile(
+  {
+    name,
+    pattern = "[name].[hash][ext]",
+    hashLength = 8,
+    mode,
+    children,
+  }: {
+    name: string;
+    pattern?: string;
+    hashLength?: number;
+    mode?: Mode;
+    children?: Expressions;
+  },
+): Expression {
+  return (
+    <map
+      fun={(evaled: string, ctx: Context) => {
+        const hash = createHash("sha256").update(encodeContents(evaled))
+          .digest("hex").slice(0, hashLength);
+        const extension = extensionOutFsPath(singletonPath(name));
+        const actualName = pattern
+          .replaceAll("[name]", name.slice(0, name.length - extension.length))
+          .replaceAll("[ext]", extension)
+          .replaceAll("[hash]", hash);
+
+        const dirPath = outCwd(ctx);
+        const outFile = createOutFile(
+          ctx,
+          currentOutDir(ctx),
+          dirPath,
+          actualName,
+          defaultMode(ctx, mode),
+          ctx.getCurrentDebuggingInformation(),
+        );
+        if (outFile !== null) {
+          writeOutFile(
+            ctx,
+            outFile,
+            [...dirPath.components, actualName],
+            evaled,
+          );
+          writeCompressedSiblings(
+            ctx,
+            currentOutDir(ctx),
+            dirPath,
+            actualName,
+            evaled,
+            defaultMode(ctx, mode),
+          );
+        }
+
+        getState(ctx).hashed.set(
+          renderOutFsPath(absoluteOutFsPath([...dirPath.components, name])),
+          absoluteOutFsPath([...dirPath.components, actualName]),
+        );
+
+        return evaled;
+      }}
+    >
+      <fragment exps={expressions(children)} />
+    </map>
+  );
+}
+
+/**
+ * Look up the actual (absolute) path of a {@linkcode HashedFile} by its
+ * logical path, i.e., the path with the logical name of the file. Relative
+ * paths are resolved from the current out directory like
+ * {@linkcode resolveRelativePath} does.
+ *
+ * Returns `null` if there is no such hashed file (yet). An `impure` macro can
+ * thus return `null` to try again later.
+ */
+export function outHashedPath(
+  ctx: Context,
+  logicalPath: OutFsPath,
+): OutFsPath | null {
+  const resolved = resolveRelativePath(ctx, logicalPath);
+  const actual = getState(ctx).hashed.get(renderOutFsPath(resolved));
+  return actual === undefined ? null : cloneOutFsPath(actual);
+}
+
+/**
+ * Internal function: recursively copy the directory at `src` to `dest`, which
+ * must not exist yet. Symlinks are copied as they are, and permissions and
+ * modification times are preserved, so that incremental builds in a staging
+ * directory leave unchanged files alone.
+ */
+function copyDirSync(src: string, dest: string) {
+  Deno.mkdirSync(dest);
+  for (const entry of Deno.readDirSync(src)) {
+    const from = join(src, entry.name);
+    const to = join(dest, entry.name);
+    if (entry.isSymlink) {
+      Deno.symlinkSync(Deno.readLinkSync(from), to);
+    } else if (entry.isDirectory) {
+      copyDirSync(from, to);
+    } else {
+      Deno.copyFileSync(from, to);
+      preserveTimes(from, to);
+    }
+  }
+
+  const info = Deno.statSync(src);
+  if (info.mode !== null) {
+    Deno.chmodSync(dest, info.mode & 0o7777);
+  }
+  preserveTimes(src, dest);
+}
+
+/**
+ * Internal function: give `dest` the access and modification times of `src`.
+ */
+function preserveTimes(src: string, dest: string) {
+  const { atime, mtime } = Deno.statSync(src);
+  if (atime !== null && mtime !== null) {
+    Deno.utimeSync(dest, atime, mtime);
+  }
+}
+
+/**
+ * Evaluate the children in transactional mode: all writes go to a staging
+ * directory next to the {@linkcode outMount} (the mount path with a suffix of
+ * `.outfs-staging`), which starts out as a copy of the current mount. Only if
+ * the children evaluate successfully is the staging directory moved into
+ * place of the mount. If evaluation halts, the prior contents of the mount
+ * stay untouched (a leftover staging directory is removed on the next run).
+ *
+ * Within {@linkcode CollectCollisions} or {@linkcode CheckLinks} macros, the
+ * staging directory is moved into place only once the outermost of them has
+ * found no problems. Macros outside of those that halt later cannot undo the
+ * move, so the transaction should wrap everything else.
+ *
+ * Moving the staging directory into place is not atomic: it takes two renames,
+ * first of the mount to a backup path (the mount path with a suffix of
+ * `.outfs-backup`), then of the staging directory to the mount. In between,
+ * the mount does not exist. Should the process die right then, the next
+ * transaction moves the backup back into place before doing anything else.
+ *
+ * The mount may not be the cwd of the process or one of its ancestors, since
+ * it gets replaced as a whole. Transactions only work with the default
+ * {@linkcode diskBackend}, and halt for any other backend. Within a
+ * {@linkcode DryRun} macro, the children are evaluated without staging.
+ */
+export function Transaction(
+  { children }: { children?: Expressions },
+): Expression {
+  return (
+    <impure
+      fun={(ctx) => {
+        const mount = outMount(ctx);
+        const staging = `${mount}.outfs-staging`;
+        const backup = `${mount}.outfs-backup`;
+
+        if (getState(ctx).dryRun) {
+          // The dry run records all writes, there is nothing to stage.
+          return <fragment exps={expressions(children)} />;
+        }
+
+        if (getConfig(ctx).backend !== diskBackend) {
+          l.error(
+            ctx,
+            `Cannot use a transaction for the out fs mounted at ${
+              Colors.yellow(mount)
+            }`,
+          );
+          l.logGroup(ctx, () => {
+            l.error(
+              ctx,
+              `Transactions only work with the default disk backend.`,
+            );
+          });
+          ctx.halt();
+          throw "just halted";
+        }
+
+        ensureMountExcludesCwd(
+          ctx,
+          "use a transaction for",
+          "so it cannot be replaced",
+        );
+
+        try {
+          if (lstatOrNull(mount) === null && lstatOrNull(backup) !== null) {
+            // A prior transaction died while moving its staging directory
+            // into place.
+            Deno.renameSync(backup, mount);
+          }
+          for (const leftover of [staging, backup]) {
+            if (lstatOrNull(leftover) !== null) {
+              Deno.removeSync(leftover, { recursive: true });
+            }
+          }
+          if (lstatOrNull(mount) !== null) {
+            copyDirSync(mount, staging);
+          }
+        } catch (err) {
+          diskFailure(ctx, "set up the staging directory", staging, err);
+        }
+
+        return (
+          <map
+            fun={(evaled: string, ctx: Context) => {
+              const swap = (ctx: Context) => {
+                try {
+                  if (lstatOrNull(staging) === null) {
+                    // Nothing was written at all.
+                    return;
+                  }
+                  const hadMount = lstatOrNull(mount) !== null;
+                  if (hadMount) {
+                    Deno.renameSync(mount, backup);
+                  }
+                  Deno.renameSync(staging, mount);
+                  if (hadMount) {
+                    Deno.removeSync(backup, { recursive: true });
+                  }
+                } catch (err) {
+                  diskFailure(
+                    ctx,
+                    "move the staging directory into place",
+                    mount,
+                    err,
+                  );
+                }
+              };
+
+              const afterChecks = getState(ctx).afterChecks;
+              if (afterChecks === null) {
+                swap(ctx);
+              } else {
+                // Enclosing checks might still halt.
+                afterChecks.push(swap);
+              }
+              return evaled;
+            }}
+          >
+            <Config
+              options={[<ConfigOutFs backend={createDiskBackend(staging)} />]}
+            >
+              <fragment exps={expressions(children)} />
+            </Config>
+          </map>
+        );
+      }}
+    />
+  );
+}
+
+/**
+ * The changes that evaluating some macros would make to the backend, as
+ * reported by the {@linkcode DryRun} macro. All lists are sorted by path.
+ */
+export type OutFsPlan = {
+  /**
+   * Files that do not exist yet.
+   */
+  create: OutFsPath[];
+  /**
+   * Files that exist, but with different contents.
+   */
+  overwrite: OutFsPath[];
+  /**
+   * Files that exist with the same contents.
+   */
+  unchanged: OutFsPath[];
+  /**
+   * Files and symlinks that exist but would be removed, for example because
+   * they reside in a `clean` directory.
+   */
+  delete: OutFsPath[];
+};
+
+/**
+ * Internal function: create a backend that records all changes in memory
+ * instead of applying them to the `underlying` backend. Reads see the
+ * recorded changes on top of the contents of the `underlying` backend.
+ */
+function createPlanningBackend(underlying: OutFsBackend): {
+  backend: OutFsBackend;
+  plan: (ctx: Context) => OutFsPlan;
+} {
+  const shadow = createMemoryBackend();
+  // Paths whose prior contents in the underlying backend are gone (including
+  // everything below them), stored as components joined with slashes.
+  const removed = new Set<string>();
+
+  const isRemoved = (path: string[]) => {
+    for (let i = 1; i <= path.length; i++) {
+      if (removed.has(path.slice(0, i).join("/"))) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const inShadow = (ctx: Context, path: string[]) =>
+    path.length === 0 ||
+    (shadow.readDir(ctx, path.slice(0, -1)) ?? []).some((entry) =>
+      entry.name === path[path.length - 1]
+    );
+
+  const backend: OutFsBackend = {
+    prepare: (_ctx, _mount) => {},
+    emptyDir: (ctx, path) => {
+      removed.add(path.join("/"));
+      shadow.emptyDir(ctx, path);
+    },
+    ensureDir: (ctx, path) => {
+      shadow.ensureDir(ctx, path);
+    },
+    ensureNot: (ctx, path) => {
+      removed.add(path.join("/"));
+      shadow.ensureNot(ctx, path);
+    },
+    writeTextFile: (ctx, path, contents) => {
+      shadow.writeTextFile(ctx, path, contents);
+    },
+    writeFile: (ctx, path, contents) => {
+      shadow.writeFile(ctx, path, contents);
+    },
+    symlink: (ctx, path, target) => {
+      shadow.symlink(ctx, path, target);
+    },
+    setAttributes: (ctx, path, attributes) => {
+      shadow.setAttributes(ctx, path, attributes);
+    },
+    readDir: (ctx, path) => {
+      const fromShadow = shadow.readDir(ctx, path);
+      const fromUnderlying = isRemoved(path)
+        ? null
+        : underlying.readDir(ctx, path);
+      if (fromShadow === null && fromUnderlying === null) {
+        return null;
+      }
+
+      const entries = new Map<string, { name: string; kind: OutFsNodeKind }>();
+      for (const entry of fromUnderlying ?? []) {
+        if (!isRemoved([...path, entry.name])) {
+          entries.set(entry.name, entry);
+        }
+      }
+      for (const entry of fromShadow ?? []) {
+        entries.set(entry.name, entry);
+      }
+      return [...entries.values()];
+    },
+    readFile: (ctx, path) => {
+      if (inShadow(ctx, path)) {
+        return shadow.readFile(ctx, path);
+      } else if (isRemoved(path)) {
+        return null;
       } else {
-        // No, error instead of creating missing components.
-        logResolveFailure(ctx, path, from);
-        l.error(
-          ctx,
-          `  no file ${styleOutFsPath(singletonPath(fst))} in ${
-            styleOutFsPath(absoluteOutFsPath(resolved))
-          }`,
-        );
-        ctx.halt();
-        throw "just halted";
+        return underlying.readFile(ctx, path);
+      }
+    },
+  };
+
+  const plan = (ctx: Context): OutFsPlan => {
+    const result: OutFsPlan = {
+      create: [],
+      overwrite: [],
+      unchanged: [],
+      delete: [],
+    };
+
+    // Compare all written files against the underlying backend.
+    const written = new Set<string>();
+    const visitShadow = (path: string[]) => {
+      for (const entry of shadow.readDir(ctx, path) ?? []) {
+        const entryPath = [...path, entry.name];
+        if (entry.kind === "dir") {
+          visitShadow(entryPath);
+        } else if (entry.kind === "file") {
+          written.add(entryPath.join("/"));
+          const prior = underlying.readFile(ctx, entryPath);
+          const contents = shadow.readFile(ctx, entryPath)!;
+          if (prior === null) {
+            result.create.push(absoluteOutFsPath(entryPath));
+          } else if (bytesEqual(prior, contents)) {
+            result.unchanged.push(absoluteOutFsPath(entryPath));
+          } else {
+            result.overwrite.push(absoluteOutFsPath(entryPath));
+          }
+        }
+      }
+    };
+    visitShadow([]);
+
+    // Everything below a removed path that was not written again is deleted.
+    const deleted = new Set<string>();
+    const visitRemoved = (path: string[], kind: OutFsNodeKind) => {
+      if (kind === "dir") {
+        for (const entry of underlying.readDir(ctx, path) ?? []) {
+          visitRemoved([...path, entry.name], entry.kind);
+        }
+      } else if (!written.has(path.join("/"))) {
+        deleted.add(path.join("/"));
+      }
+    };
+    for (const removedPath of removed) {
+      const path = removedPath.split("/");
+      const name = path[path.length - 1];
+      const siblings = underlying.readDir(ctx, path.slice(0, -1)) ?? [];
+      const entry = siblings.find((sibling) => sibling.name === name);
+      if (entry !== undefined) {
+        visitRemoved(path, entry.kind);
       }
     }
+    result.delete = [...deleted].map((p) => absoluteOutFsPath(p.split("/")));
 
-    // Successfully looked up the directory, so we successfully handled the
-    // first path component. Continue the loop with the next component.
-    currentPath = rest;
-    resolved = [...resolved, fst];
-    currentNode = nextNode;
-  }
+    for (const paths of Object.values(result)) {
+      paths.sort((a: OutFsPath, b: OutFsPath) => {
+        const renderedA = renderOutFsPath(a);
+        const renderedB = renderOutFsPath(b);
+        return renderedA < renderedB ? -1 : (renderedA > renderedB ? 1 : 0);
+      });
+    }
 
-  return currentNode;
-}
+    return result;
+  };
 
-/**
- * Error if the given node is not a directory.
- */
-function ensureOutNodeIsDir(
-  ctx: Context,
-  node: OutFsNode,
-  path: OutFsPath,
-  from: OutFsPath,
-  resolved: OutFsPath,
-): OutDir {
-  if (isOutDir(node.node)) {
-    return node.node;
-  } else {
-    logResolveFailure(ctx, path, from);
-    l.logGroup(ctx, () => {
-      l.error(ctx, `The path resolved not to a directory but to a file:`);
-      l.error(ctx, `${styleOutFsPath(resolved)}`);
-      l.error(ctx, `File created at ${styleDebuggingInformation(node.source)}`);
-    });
-    ctx.halt();
-    throw "just halted";
-  }
+  return { backend, plan };
 }
 
 /**
- * To be used when somethings requires path arguments for error reporting
- * but we know it cannot fail.
+ * Internal function: log an {@linkcode OutFsPlan} at the info level.
  */
-const dummyPath = relativeOutFsPath([]);
+function logPlan(ctx: Context, plan: OutFsPlan) {
+  const logPaths = (heading: string, paths: OutFsPath[]) => {
+    if (paths.length > 0) {
+      l.info(ctx, heading);
+      l.logGroup(ctx, () => {
+        for (const path of paths) {
+          l.info(ctx, styleOutFsPath(path));
+        }
+      });
+    }
+  };
 
-/**
- * Describes what to do if there is already a file of some name.
- *   - `"timid"`: Log error and halt.
- *   - `"placid"`: Do nothing if there is already a file/directory of this name.
- *   - `"assertive"`: Create a new empty directory at this name, no matter what.
- */
-export type Mode = "timid" | "placid" | "assertive";
+  logPaths(`Would create:`, plan.create);
+  logPaths(`Would overwrite:`, plan.overwrite);
+  logPaths(`Would leave unchanged:`, plan.unchanged);
+  logPaths(`Would delete:`, plan.delete);
+}
 
 /**
- * Create a directory in the current out directory, and `cd` there.
+ * Evaluate the children without touching the backend: all OutFs bookkeeping
+ * and collision checks happen as usual, but writes are only recorded. After
+ * evaluation, the recorded changes are compared against the contents of the
+ * backend, yielding an {@linkcode OutFsPlan}.
  *
- * @param name - The name of the directory to create.
- * @param mode - What to do if there is already a file at this name. defaults
- * to `"timid"`.
- * @param clean - Whether to initially clean out the contents of the directory
- * on the file system. Defaults to **`true`**.
- * @param children - Expressions to evaluate in the new directory.
- * @returns The evaluated children.
+ * The plan is passed to the `onPlan` function if one is given, or logged at
+ * the info level via {@linkcode LoggerOutFs} otherwise.
+ *
+ * Nested {@linkcode Transaction} macros evaluate their children without
+ * staging, and nested {@linkcode Manifest} and {@linkcode Archive} macros
+ * merely log where they would write to. Nested {@linkcode ConfigOutFs} macros
+ * that configure a different backend are not affected.
  */
-export function Dir({ name, children: children_, mode = "timid", clean = true }: {
-  name: string;
-  mode?: Mode;
-  clean?: boolean;
-  children?: Expressions;
-}): Expression {
-  const children = expressions(children_);
-
-  // First, create the directory both in the OutFS and on the real fs.
-  const createTheDir = (
+export function DryRun(
+  { children, onPlan }: {
+    children?: Expressions;
+    /**
+     * Receives the plan after evaluation of the children.
+     */
+    onPlan?: (plan: OutFsPlan, ctx: Context) => void;
+  },
+): Expression {
+  return (
     <impure
-      fun={(ctx: Context) => {
-        const state = getState(ctx);
+      fun={(ctx) => {
+        const planning = createPlanningBackend(getConfig(ctx).backend);
+        let priorDryRun = false;
 
-        // Get the current directory (cannot fail).
-        const node = resolveCwd(ctx, false, dummyPath, dummyPath);
-        const outDir = ensureOutNodeIsDir(
-          ctx,
-          node,
-          dummyPath,
-          dummyPath,
-          outCwd(ctx),
+        return (
+          <map
+            fun={(evaled: string, ctx: Context) => {
+              const plan = planning.plan(ctx);
+              if (onPlan === undefined) {
+                logPlan(ctx, plan);
+              } else {
+                onPlan(plan, ctx);
+              }
+              return evaled;
+            }}
+          >
+            <Config options={[<ConfigOutFs backend={planning.backend} />]}>
+              <lifecycle
+                pre={(ctx) => {
+                  const state = getState(ctx);
+                  priorDryRun = state.dryRun;
+                  state.dryRun = true;
+                }}
+                post={(ctx) => {
+                  getState(ctx).dryRun = priorDryRun;
+                }}
+              >
+                <fragment exps={expressions(children)} />
+              </lifecycle>
+            </Config>
+          </map>
         );
-
-        if (shouldAddNode(ctx, outDir, mode, name)) {
-          // Time to create an empty directory:
-          // in the logical OutFs...
-          outDir.set(name, {
-            source: ctx.getCurrentDebuggingInformation(),
-            node: new Map(),
-          });
-          // ... and on the real file system.
-          const path = join(state.mount, ...state.shell.cwd, name);
-          return clean ? <EmptyDir dir={path} /> : <EnsureDir path={path} />;
-        } else {
-          return (
-            <EnsureDir path={join(state.mount, ...state.shell.cwd, name)}>
-            </EnsureDir>
-          );
-        }
       }}
     />
   );
+}
 
-  return (
-    <map
-      fun={(_: string, _ctx: Context) => {
-        return (
-          <Cd path={singletonPath(name)}>
-            <fragment exps={children} />
-          </Cd>
-        );
-      }}
-    >
-      {createTheDir}
-    </map>
-  );
+/**
+ * The archive formats supported by the {@linkcode Archive} macro.
+ */
+export type ArchiveFormat = "tar" | "tar.gz" | "zip";
+
+/**
+ * Internal function: list all nodes of a memory backend as archive entries,
+ * depth-first and sorted by name. Nodes without attributes get default
+ * permissions (depending on their kind) and the given `mtime`.
+ */
+function archiveEntries(
+  backend: MemoryBackend,
+  dir: MemoryDir,
+  path: string[],
+  mtime: number,
+): ArchiveEntry[] {
+  const entries: ArchiveEntry[] = [];
+  for (const name of [...dir.keys()].sort()) {
+    const node = dir.get(name)!;
+    const entryPath = [...path, name];
+
+    let kind: OutFsNodeKind = "file";
+    let contents = new Uint8Array();
+    if (node instanceof Map) {
+      kind = "dir";
+    } else if (typeof node === "object" && "target" in node) {
+      kind = "symlink";
+      contents = encodeContents(node.target);
+    } else {
+      contents = encodeContents(node);
+    }
+
+    const attributes = backend.attributes.get(
+      renderOutFsPath(absoluteOutFsPath(entryPath)),
+    );
+    entries.push({
+      path: entryPath.join("/"),
+      kind,
+      contents,
+      permissions: attributes?.permissions ??
+        (kind === "dir" ? 0o755 : (kind === "symlink" ? 0o777 : 0o644)),
+      mtime: attributes?.mtime === undefined
+        ? mtime
+        : Math.floor(attributes.mtime.getTime() / 1000),
+    });
+
+    if (node instanceof Map) {
+      entries.push(...archiveEntries(backend, node, entryPath, mtime));
+    }
+  }
+  return entries;
 }
 
 /**
- * Create a file in current out directory, write the evaluated children there.
+ * Evaluate the children, writing everything into a single archive file
+ * instead of a directory. The archive is reproducible: entries are sorted by
+ * path, and (unless set via `permissions` and `mtime` props or options) all
+ * share the same timestamp, owner and (per kind) permissions.
  *
- * @param name - The name of the file to create.
- * @param mode - What to do if there is already a file at this name. Defaults to
- * `"timid"`.
- * @param children - Expressions to evaluate to form the file contents.
+ * @param dest - The (platform-dependent) path to write the archive to.
+ * Relative paths are resolved against the cwd of the process. This is
+ * independent of the OutFs and its backend.
+ * @param format - The archive format. Defaults to `"zip"` if `dest` ends with
+ * `.zip`, to `"tar.gz"` if `dest` ends with `.tar.gz` or `.tgz`, and to
+ * `"tar"` otherwise.
+ * Zip archives are written without the zip64 extension, so evaluation halts
+ * for 65536 or more entries, or for 4 GiB or more.
+ * @param mtime - The modification time of all entries without an explicit
+ * mtime, in seconds since the Unix epoch. Defaults to `0` (zip archives cannot
+ * store times before 1980, and use 1980-01-01 instead).
+ * @param children - The expressions to evaluate to create the contents of the
+ * archive.
  * @returns The evaluated children.
  */
-export function File({ name, children: children_, mode = "timid" }: {
-  name: string;
-  mode?: Mode;
+export function Archive({ dest, format, mtime = 0, children }: {
+  dest: string;
+  format?: ArchiveFormat;
+  mtime?: number;
   children?: Expressions;
 }): Expression {
-  const children = expressions(children_);
-
-  let createNewFile = true;
+  const actualFormat: ArchiveFormat = format ??
+    (dest.endsWith(".zip")
+      ? "zip"
+      : (dest.endsWith(".tar.gz") || dest.endsWith(".tgz") ? "tar.gz" : "tar"));
 
-  // First, create the file in the OutFS.
-  const createTheFile = (
+  return (
     <impure
-      fun={(ctx: Context) => {
-        const state = getState(ctx);
+      fun={(ctx) => {
+        // All writes go to memory, and are archived at the end.
+        const backend = createMemoryBackend();
 
-        // Get the current directory (cannot fail).
-        const node = resolveCwd(ctx, false, dummyPath, dummyPath);
-        const outDir = ensureOutNodeIsDir(
-          ctx,
-          node,
-          dummyPath,
-          dummyPath,
-          outCwd(ctx),
-        );
+        return (
+          <map
+            fun={(evaled: string, ctx: Context) => {
+              const entries = archiveEntries(backend, backend.root, [], mtime);
+              let archive = actualFormat === "zip"
+                ? zipArchive(entries)
+                : tarArchive(entries);
+              if (archive === null) {
+                l.error(
+                  ctx,
+                  `Cannot create zip archive ${Colors.yellow(dest)}`,
+                );
+                l.logGroup(ctx, () => {
+                  l.error(
+                    ctx,
+                    `Zip archives hold at most 65535 entries and 4 GiB.`,
+                  );
+                  l.error(ctx, `Use a tar archive instead.`);
+                });
+                ctx.halt();
+                throw "just halted";
+              }
+              if (actualFormat === "tar.gz") {
+                archive = new Uint8Array(gzipSync(archive, { level: 9 }));
+              }
 
-        createNewFile = shouldAddNode(ctx, outDir, mode, name);
+              if (getState(ctx).dryRun) {
+                l.info(
+                  ctx,
+                  `Would write the archive to ${Colors.yellow(dest)}`,
+                );
+                return evaled;
+              }
 
-        if (createNewFile) {
-          // Create the file in the logical OutFs.
-          outDir.set(name, {
-            source: ctx.getCurrentDebuggingInformation(),
-            node: null,
-          });
-          // Delete any prior version of the file from the real fs.
-          return (
-            <>
-              <EnsureNot path={join(state.mount, ...state.shell.cwd, name)} />
-              <fragment exps={children} />
-            </>
-          );
-        } else {
-          return <fragment exps={children} />;
-        }
+              try {
+                Deno.writeFileSync(dest, archive);
+              } catch (err) {
+                diskFailure(ctx, "write archive", dest, err);
+              }
+
+              return evaled;
+            }}
+          >
+            <Config options={[<ConfigOutFs backend={backend} />]}>
+              <fragment exps={expressions(children)} />
+            </Config>
+          </map>
+        );
       }}
     />
   );
+}
 
-  let priorFilename: string | null = "";
+/**
+ * Internal function: create the bookkeeping for a macro that checks the OutFs
+ * once its children have been evaluated. Its `pre` and `post` hooks make the
+ * outermost such macro collect the {@linkcode OutFS} `afterChecks`, and `run`
+ * performs them (if the macro is the outermost one) once the checks passed.
+ */
+function createAfterChecks(): {
+  pre: (ctx: Context) => void;
+  post: (ctx: Context) => void;
+  run: (ctx: Context) => void;
+} {
+  const pending: ((ctx: Context) => void)[] = [];
+  let prior: ((ctx: Context) => void)[] | null = null;
+
+  return {
+    pre: (ctx) => {
+      const state = getState(ctx);
+      prior = state.afterChecks;
+      if (prior === null) {
+        state.afterChecks = pending;
+      }
+    },
+    post: (ctx) => {
+      getState(ctx).afterChecks = prior;
+    },
+    run: (ctx) => {
+      if (prior === null) {
+        for (const work of pending.splice(0)) {
+          work(ctx);
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Evaluate the children, collecting all collisions of {@linkcode Mode}
+ * `"timid"` rather than halting on the first one. Colliding macros leave the
+ * existing node alone: colliding files are not written, and colliding
+ * directories (of {@linkcode Dir} or {@linkcode CopyDir}) do not create their
+ * contents. Once the children have been evaluated, all collisions are
+ * reported together, and the context halts.
+ *
+ * @param children - The expressions to evaluate.
+ * @returns The evaluated children, if there were no collisions.
+ */
+export function CollectCollisions(
+  { children }: { children?: Expressions },
+): Expression {
+  const collisions: Collision[] = [];
+  let alreadyCollecting = false;
+  let priorCollisions: Collision[] | null = null;
+  const afterChecks = createAfterChecks();
 
   return (
-    <lifecycle
-      pre={(ctx) => {
-        const shell = getState(ctx).shell;
-        priorFilename = shell.filename;
-        shell.filename = name;
-      }}
-      post={(ctx) => {
-        getState(ctx).shell.filename = priorFilename;
+    <map
+      fun={(evaled: string, ctx: Context) => {
+        if (alreadyCollecting) {
+          // An enclosing `CollectCollisions` macro does the reporting.
+          return evaled;
+        } else if (collisions.length === 0) {
+          afterChecks.run(ctx);
+          return evaled;
+        }
+
+        const styleMode = (mode: Mode | null) =>
+          mode === null ? "" : ` (mode ${Colors.yellow(mode)})`;
+
+        l.error(ctx, `Found ${collisions.length} collision(s) in the out fs.`);
+        l.logGroup(ctx, () => {
+          for (const collision of collisions) {
+            l.error(ctx, `Cannot create ${styleOutFsPath(collision.path)}`);
+            l.logGroup(ctx, () => {
+              l.error(
+                ctx,
+                `Created at ${
+                  styleDebuggingInformation(collision.existingSource)
+                }${styleMode(collision.existingMode)}`,
+              );
+              l.error(
+                ctx,
+                `Created again at ${
+                  styleDebuggingInformation(collision.source)
+                }${styleMode(collision.mode)}`,
+              );
+            });
+          }
+        });
+        ctx.halt();
+        throw "just halted";
       }}
     >
-      <map
-        fun={(evaled: string, ctx: Context) => {
-          if (createNewFile) {
-            const state = getState(ctx);
-            return (
-              <WriteTextFile path={join(state.mount, ...state.shell.cwd, name)}>
-                {evaled}
-              </WriteTextFile>
-            );
-          } else {
-            return evaled;
+      <lifecycle
+        pre={(ctx) => {
+          const state = getState(ctx);
+          priorCollisions = state.collisions;
+          alreadyCollecting = priorCollisions !== null;
+          if (!alreadyCollecting) {
+            state.collisions = collisions;
           }
+          afterChecks.pre(ctx);
+        }}
+        post={(ctx) => {
+          getState(ctx).collisions = priorCollisions;
+          afterChecks.post(ctx);
         }}
       >
-        {createTheFile}
-      </map>
-    </lifecycle>
+        <fragment exps={expressions(children)} />
+      </lifecycle>
+    </map>
   );
 }
 
-function shouldAddNode(
-  ctx: Context,
-  outDir: OutDir,
-  mode: Mode,
-  name: string,
-): boolean {
-  // Add a new directory to the current directory.
-  if (outDir.has(name)) {
-    // We already have a node at this name.
+/**
+ * What happened to a node in the OutFs, as reported to an
+ * {@linkcode OutFsHook}.
+ */
+export type OutFsNodeEvent = {
+  /**
+   * `"added"` if there was no node at the path before, `"overwritten"` if an
+   * assertive macro replaced an existing node, and `"skipped"` if a placid
+   * macro left an existing node in place.
+   */
+  event: "added" | "overwritten" | "skipped";
+  /**
+   * The absolute path of the node.
+   */
+  path: OutFsPath;
+  kind: "file" | "dir";
+  /**
+   * The macro that created (or tried to create) the node.
+   */
+  source: DebuggingInformation;
+  /**
+   * The final contents of an added or overwritten file, `null` otherwise.
+   */
+  contents: string | Uint8Array | null;
+};
 
-    if (mode === "timid") {
-      // Immediately error out.
-      l.error(
-        ctx,
-        `Cannot create ${styleOutFsPath(singletonPath(name))} in ${
-          styleOutFsPath(outCwd(ctx))
-        }`,
-      );
-      l.logGroup(ctx, () => {
-        l.error(
-          ctx,
-          `File ${styleOutFsPath(singletonPath(name))} already exists.`,
-        );
-        l.error(
-          ctx,
-          `Created at ${styleDebuggingInformation(outDir.get(name)!.source)}`,
-        );
-      });
-      ctx.halt();
-      throw "unreachable";
-    } else if (mode === "placid") {
-      return false;
-    } else {
-      return true;
+/**
+ * A function to be called whenever a directory or file is created in the
+ * OutFs (or skipped), see {@linkcode outRegisterHook}. Files are reported once
+ * their contents have been written.
+ */
+export type OutFsHook = (event: OutFsNodeEvent, ctx: Context) => void;
+
+/**
+ * Register a hook to be called for every directory and file that is added to
+ * the OutFs, overwritten, or skipped from now on. Useful for macros that need
+ * to know all created pages, such as sitemaps or feeds.
+ *
+ * Returns a function that unregisters the hook again.
+ */
+export function outRegisterHook(ctx: Context, hook: OutFsHook): () => void {
+  const hooks = getState(ctx).hooks;
+  hooks.push(hook);
+
+  return () => {
+    const index = hooks.indexOf(hook);
+    if (index !== -1) {
+      hooks.splice(index, 1);
     }
-  } else {
-    return true;
+  };
+}
+
+/**
+ * Internal function: call all registered hooks.
+ */
+function fireHooks(
+  ctx: Context,
+  event: OutFsNodeEvent["event"],
+  path: string[],
+  kind: OutFsNodeEvent["kind"],
+  source: DebuggingInformation,
+  contents: string | Uint8Array | null,
+) {
+  const hooks = getState(ctx).hooks;
+  if (hooks.length === 0) {
+    return;
+  }
+
+  // Hooks may (un)register other hooks.
+  for (const hook of [...hooks]) {
+    hook(
+      { event, path: absoluteOutFsPath([...path]), kind, source, contents },
+      ctx,
+    );
   }
 }
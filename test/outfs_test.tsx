@@ -1,16 +1,70 @@
 import {
   absoluteOutFsPath,
+  AfterOutFs,
+  Archive,
+  BinaryFile,
   Cd,
+  CheckLinks,
+  CollectCollisions,
+  ConfigOutFs,
+  Contribute,
+  CopyDir,
+  CopyFile,
+  createMemoryBackend,
+  Defaults,
   Dir,
+  DirIndex,
+  DryRun,
   File,
+  HashedFile,
+  Incremental,
+  LinkTo,
+  Manifest,
+  ManifestEntry,
+  MemoryDir,
+  MemoryNode,
+  Prune,
+  outExists,
+  outFileSize,
+  outFullPath,
+  outGlob,
+  outHashedPath,
+  outHref,
+  outList,
+  outMount,
+  outReadFile,
+  outRegisterHook,
+  OutFsPath,
+  OutFsNodeEvent,
+  OutFsNodeKind,
+  OutFsPlan,
+  outRelativeTo,
   relativeOutFsPath,
+  Symlink,
+  Transaction,
+} from "../mod.tsx";
+import { Config, Context, Expression, Expressions, expressions, didWarnOrWorse } from "../deps.ts";
+import {
+  assertEquals,
+  assertFs,
+  brotliDecompressSync,
+  gunzipSync,
+} from "../devDeps.ts";
+import { createHash, join } from "../deps.ts";
+import {
+  basenameOutFsPath,
+  changeExtensionOutFsPath,
+  equalsOutFsPath,
+  extensionOutFsPath,
+  isAncestorOutFsPath,
+  joinOutFsPath,
+  parentOutFsPath,
+  parseOutFsPath,
+  renderOutFsPath,
 } from "../mod.tsx";
-import { Context, Expression, Expressions, expressions, didWarnOrWorse } from "../deps.ts";
-import { assertEquals, assertFs } from "../devDeps.ts";
-import { join } from "../deps.ts";
-import { renderOutFsPath } from "../mod.tsx";
 import { outCwd } from "../mod.tsx";
 import { outFilename } from "../mod.tsx";
+import { ArchiveEntry, zipArchive } from "../archive.ts";
 
 type ExpectedNode = ExpectedDir | string;
 
@@ -361,4 +415,1424 @@ Deno.test("disabling `clean` prop works", async () => {
   await assertFs("testNoClean", "expectedNoClean");
 
   await Deno.remove("testNoClean/B");
-});
\ No newline at end of file
+});
+
+Deno.test("configurable mount", async () => {
+  const tmp = Deno.makeTempDirSync();
+  const mountA = join(tmp, "distA");
+  const mountB = join(tmp, "nested", "distB");
+
+  const ctxA = new Context();
+  const gotA = await ctxA.evaluate(
+    <Config options={[<ConfigOutFs mount={mountA} />]}>
+      <Dir name="a">
+        <File name="b">x</File>
+      </Dir>
+      <impure fun={(ctx) => outMount(ctx)} />
+    </Config>,
+  );
+  assertEquals(gotA, `x${mountA}`);
+
+  const ctxB = new Context();
+  const gotB = await ctxB.evaluate(
+    <Config options={[<ConfigOutFs mount={mountB} />]}>
+      <Cd path={relativeOutFsPath(["c"])} create>
+        <File name="d">y</File>
+      </Cd>
+    </Config>,
+  );
+  assertEquals(gotB, `y`);
+
+  assertFsNode(join(mountA, "a"), [{ name: "b", node: "x" }]);
+  assertFsNode(join(mountB, "c"), [{ name: "d", node: "y" }]);
+  cleanup(tmp);
+});
+
+Deno.test("memory backend", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <Dir name="recipes">
+        <File name="index.md">These are good recipes.</File>
+        <Dir name="dessert">
+          <File name="icecream.md">Put cream into freezer.</File>
+        </Dir>
+        <Cd path={relativeOutFsPath(["breakfast"])} create>
+          <File name="cereals.md">Pour milk.</File>
+        </Cd>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got != null, true);
+
+  assertEquals(
+    backend.root,
+    new Map([
+      [
+        "recipes",
+        new Map<string, MemoryNode>([
+          ["index.md", "These are good recipes."],
+          ["dessert", new Map([["icecream.md", "Put cream into freezer."]])],
+          ["breakfast", new Map([["cereals.md", "Pour milk."]])],
+        ]),
+      ],
+    ]),
+  );
+});
+
+Deno.test("placid directories keep colliding files", async () => {
+  const tmp = Deno.makeTempDirSync();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs mount={tmp} />]}>
+      <File name="a">x</File>
+      <Dir name="a" mode="placid" />
+    </Config>,
+  );
+  // The directory cannot be entered, but the file stays in place.
+  assertEquals(got, null);
+  assertEquals(Deno.readTextFileSync(join(tmp, "a")), "x");
+  cleanup(tmp);
+});
+
+Deno.test("read back retained files", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config
+      options={[
+        <ConfigOutFs backend={createMemoryBackend()} retainContents />,
+      ]}
+    >
+      <Dir name="a">
+        <File name="index.html">
+          <impure
+            fun={(ctx) => {
+              const contents = outReadFile(ctx, relativeOutFsPath(["b", "c"]));
+              const size = outFileSize(
+                ctx,
+                absoluteOutFsPath(["a", "b", "c"]),
+              );
+              return contents === null ? null : `${contents};${size}`;
+            }}
+          />
+        </File>
+        <Dir name="b">
+          <File name="c">héllo</File>
+        </Dir>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, "héllo;6héllo");
+});
+
+Deno.test("reading unretained files fails", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <File name="a">x</File>
+      <impure fun={(ctx) => outReadFile(ctx, relativeOutFsPath(["a"]))} />
+    </Config>,
+  );
+  assertEquals(got, null);
+  assertEquals(didWarnOrWorse(ctx), true);
+});
+
+Deno.test("binary files", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <Dir name="a">
+        <BinaryFile name="b" contents={new Uint8Array([1, 2, 3])} />
+        <BinaryFile
+          name="c"
+          contents={(ctx) =>
+            new TextEncoder().encode(renderOutFsPath(outFullPath(ctx)))}
+        />
+        <BinaryFile name="b" mode="placid" contents={new Uint8Array([4])} />
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, "");
+
+  assertEquals(
+    backend.root,
+    new Map([
+      [
+        "a",
+        new Map<string, MemoryNode>([
+          ["b", new Uint8Array([1, 2, 3])],
+          ["c", new TextEncoder().encode("/a/c")],
+        ]),
+      ],
+    ]),
+  );
+});
+
+Deno.test("binary files collide with text files", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <File name="a">x</File>
+      <BinaryFile name="a" contents={new Uint8Array([1])} />
+    </Config>,
+  );
+  assertEquals(got, null);
+  assertEquals(didWarnOrWorse(ctx), true);
+});
+
+Deno.test("copying files and directories", async () => {
+  const tmp = Deno.makeTempDirSync();
+  Deno.mkdirSync(join(tmp, "assets", "css"), { recursive: true });
+  Deno.mkdirSync(join(tmp, "assets", "img"));
+  Deno.writeTextFileSync(join(tmp, "assets", "css", "main.css"), "a");
+  Deno.writeTextFileSync(join(tmp, "assets", "css", "notes.txt"), "b");
+  Deno.writeTextFileSync(join(tmp, "assets", "img", "logo.txt"), "c");
+  Deno.writeTextFileSync(join(tmp, "CNAME"), "d");
+
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <Dir name="out">
+        <CopyFile src={join(tmp, "CNAME")} />
+        <CopyFile src={join(tmp, "CNAME")} name="CNAME2" />
+        <CopyDir src={join(tmp, "assets")} />
+        <CopyDir src={join(tmp, "assets")} name="styles" include="**/*.css" />
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, "");
+
+  const bytes = (s: string) => new TextEncoder().encode(s);
+  assertEquals(
+    backend.root,
+    new Map([
+      [
+        "out",
+        new Map<string, MemoryNode>([
+          ["CNAME", bytes("d")],
+          ["CNAME2", bytes("d")],
+          [
+            "assets",
+            new Map([
+              [
+                "css",
+                new Map([
+                  ["main.css", bytes("a")],
+                  ["notes.txt", bytes("b")],
+                ]),
+              ],
+              ["img", new Map([["logo.txt", bytes("c")]])],
+            ]),
+          ],
+          ["styles", new Map([["css", new Map([["main.css", bytes("a")]])]])],
+        ]),
+      ],
+    ]),
+  );
+  cleanup(tmp);
+});
+
+Deno.test("copying detects collisions", async () => {
+  const tmp = Deno.makeTempDirSync();
+  Deno.writeTextFileSync(join(tmp, "index.html"), "a");
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <File name="index.html">b</File>
+      <CopyFile src={join(tmp, "index.html")} />
+    </Config>,
+  );
+  assertEquals(got, null);
+  assertEquals(didWarnOrWorse(ctx), true);
+  cleanup(tmp);
+});
+
+Deno.test("symlinks", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <Dir name="a">
+        <Dir name="b" />
+        <Symlink name="latest" target={relativeOutFsPath(["b"])} />
+        <Dir name="c">
+          <Symlink name="up" target={absoluteOutFsPath(["a", "b"])} />
+        </Dir>
+        <Cd path={relativeOutFsPath(["c", "up"])}>
+          <File name="d">
+            <impure fun={(ctx) => renderOutFsPath(outCwd(ctx))} />
+          </File>
+        </Cd>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, "/a/c/up");
+
+  assertEquals(
+    backend.root,
+    new Map([
+      [
+        "a",
+        new Map<string, MemoryNode>([
+          ["b", new Map([["d", "/a/c/up"]])],
+          ["latest", { target: "b" }],
+          ["c", new Map([["up", { target: "../../a/b" }]])],
+        ]),
+      ],
+    ]),
+  );
+});
+
+Deno.test("symlink cycles", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <Symlink name="a" target={relativeOutFsPath(["b"])} />
+      <Symlink name="b" target={relativeOutFsPath(["a"])} />
+      <Cd path={relativeOutFsPath(["a"])} />
+    </Config>,
+  );
+  assertEquals(got, null);
+  assertEquals(didWarnOrWorse(ctx), true);
+});
+
+Deno.test("repeatedly following a symlink", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <CheckLinks>
+        <Dir name="a">
+          <Symlink name="l" target={absoluteOutFsPath(["a"])} />
+        </Dir>
+        <Cd path={absoluteOutFsPath(["a", "l", "l", "x"])} create>
+          <File name="f">y</File>
+        </Cd>
+        <LinkTo path={absoluteOutFsPath(["a", "l", "l", "x", "f"])} />
+      </CheckLinks>
+    </Config>,
+  );
+  assertEquals(got, "ya/l/l/x/f");
+  assertEquals(didWarnOrWorse(ctx), false);
+  assertEquals(
+    (backend.root.get("a") as MemoryDir).get("x"),
+    new Map([["f", "y"]]),
+  );
+});
+
+Deno.test("relative links", async () => {
+  function showLinks(): Expression {
+    return (
+      <impure
+        fun={(ctx) => {
+          return [
+            outRelativeTo(ctx, absoluteOutFsPath(["foo", "bar", "baz.html"])),
+            outRelativeTo(ctx, absoluteOutFsPath(["foo", "qux", "a.html"])),
+            outRelativeTo(ctx, absoluteOutFsPath(["foo"])),
+            outRelativeTo(ctx, absoluteOutFsPath(["foo", "bar"])),
+            outRelativeTo(ctx, relativeOutFsPath(["x"], 1)),
+          ].map(renderOutFsPath).join(";");
+        }}
+      />
+    );
+  }
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <Dir name="foo">
+        <Dir name="bar">
+          <File name="index.html">
+            {showLinks()}|
+            <impure
+              fun={(ctx) =>
+                outHref(ctx, absoluteOutFsPath(["foo", "my recipes", "ä.html"]))}
+            />
+          </File>
+        </Dir>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(
+    got,
+    "baz.html;../qux/a.html;..;.;../x|../my%20recipes/%C3%A4.html",
+  );
+});
+
+Deno.test("checking links", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <CheckLinks>
+        <File name="index.html">
+          <LinkTo path={relativeOutFsPath(["blog", "post.html"])} kind="file" />
+          <LinkTo path={relativeOutFsPath(["blog"])} kind="dir" />
+        </File>
+        <Dir name="blog">
+          <File name="post.html">
+            <LinkTo path={relativeOutFsPath([], 1)} />
+          </File>
+        </Dir>
+      </CheckLinks>
+    </Config>,
+  );
+  assertEquals(got, "blog/post.htmlblog..");
+  assertEquals(didWarnOrWorse(ctx), false);
+});
+
+Deno.test("dangling links", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <CheckLinks>
+        <File name="index.html">
+          <LinkTo path={relativeOutFsPath(["blog"])} kind="file" />
+          <LinkTo path={relativeOutFsPath(["about.html"])} />
+        </File>
+        <Dir name="blog" />
+      </CheckLinks>
+    </Config>,
+  );
+  assertEquals(got, null);
+  assertEquals(didWarnOrWorse(ctx), true);
+});
+
+Deno.test("checking only the links of the children", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <File name="a.html">
+        <LinkTo path={relativeOutFsPath(["missing.html"])} />
+      </File>
+      <CheckLinks>
+        <File name="b.html">
+          <LinkTo path={relativeOutFsPath(["a.html"])} />
+        </File>
+      </CheckLinks>
+    </Config>,
+  );
+  assertEquals(got, "missing.htmla.html");
+  assertEquals(didWarnOrWorse(ctx), false);
+});
+
+Deno.test("manifest", async () => {
+  const tmp = Deno.makeTempDirSync();
+  const dest = join(tmp, "manifest.json");
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <Manifest dest={dest}>
+        <Dir name="b">
+          <File name="c">hi</File>
+        </Dir>
+        <Symlink name="a" target={relativeOutFsPath(["b"])} />
+      </Manifest>
+    </Config>,
+  );
+  assertEquals(got, "hi");
+
+  const manifest: ManifestEntry[] = JSON.parse(Deno.readTextFileSync(dest));
+  assertEquals(
+    manifest.map(({ source: _, ...entry }) => entry),
+    [
+      { path: "/a", kind: "symlink", size: null, hash: null, target: "b" },
+      { path: "/b", kind: "dir", size: null, hash: null, target: null },
+      {
+        path: "/b/c",
+        kind: "file",
+        size: 2,
+        hash: createHash("sha256").update("hi").digest("hex"),
+        target: null,
+      },
+    ],
+  );
+  cleanup(tmp);
+});
+
+Deno.test("pruning stale files", async () => {
+  const tmp = Deno.makeTempDirSync();
+  Deno.mkdirSync(join(tmp, "a", "stale"), { recursive: true });
+  Deno.mkdirSync(join(tmp, ".git"));
+  Deno.writeTextFileSync(join(tmp, "a", "old.html"), "old");
+  Deno.writeTextFileSync(join(tmp, "a", "CNAME"), "example.org");
+  Deno.writeTextFileSync(join(tmp, "gone.html"), "old");
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs mount={tmp} />]}>
+      <Prune ignore={[".git", "**/CNAME"]}>
+        <Dir name="a" clean={false}>
+          <File name="new.html">new</File>
+        </Dir>
+      </Prune>
+    </Config>,
+  );
+  assertEquals(got, "new");
+
+  assertEquals(
+    [...Deno.readDirSync(tmp)].map((entry) => entry.name).sort(),
+    [".git", "a"],
+  );
+  assertEquals(
+    [...Deno.readDirSync(join(tmp, "a"))].map((entry) => entry.name).sort(),
+    ["CNAME", "new.html"],
+  );
+  cleanup(tmp);
+});
+
+Deno.test("pruning the cwd", async () => {
+  const tmp = Deno.makeTempDirSync();
+  Deno.writeTextFileSync(join(tmp, "project.json"), "{}");
+
+  const cwd = Deno.cwd();
+  Deno.chdir(tmp);
+  try {
+    const ctx = new Context();
+    const got = await ctx.evaluate(
+      <Config options={[<ConfigOutFs mount={tmp} />]}>
+        <Prune />
+      </Config>,
+    );
+    assertEquals(got, null);
+  } finally {
+    Deno.chdir(cwd);
+  }
+
+  assertEquals(Deno.readTextFileSync(join(tmp, "project.json")), "{}");
+  cleanup(tmp);
+});
+
+Deno.test("dry pruning", async () => {
+  const backend = createMemoryBackend();
+  backend.root.set("stale.html", "old");
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <Prune dry>
+        <File name="new.html">new</File>
+      </Prune>
+    </Config>,
+  );
+  assertEquals(got, "new");
+  assertEquals(didWarnOrWorse(ctx), true);
+  assertEquals(backend.root.get("stale.html"), "old");
+});
+
+Deno.test("incremental builds", async () => {
+  const tmp = Deno.makeTempDirSync();
+
+  const build = async (a: string, b: string | null) => {
+    const ctx = new Context();
+    const got = await ctx.evaluate(
+      <Config options={[<ConfigOutFs mount={tmp} />]}>
+        <Incremental>
+          <Dir name="site">
+            <File name="a">{a}</File>
+            {b === null ? "" : <File name="b">{b}</File>}
+          </Dir>
+        </Incremental>
+      </Config>,
+    );
+    assertEquals(got != null, true);
+  };
+
+  await build("a", "b");
+  const mtimeA = Deno.statSync(join(tmp, "site", "a")).mtime;
+
+  await build("a", "c");
+  assertEquals(Deno.statSync(join(tmp, "site", "a")).mtime, mtimeA);
+  assertEquals(Deno.readTextFileSync(join(tmp, "site", "b")), "c");
+
+  await build("a", null);
+  assertEquals(Deno.statSync(join(tmp, "site", "a")).mtime, mtimeA);
+  assertEquals(
+    [...Deno.readDirSync(join(tmp, "site"))].map((entry) => entry.name),
+    ["a"],
+  );
+  cleanup(tmp);
+});
+
+Deno.test("incremental builds prune nested directories", async () => {
+  const tmp = Deno.makeTempDirSync();
+
+  const build = async (old: boolean) => {
+    const ctx = new Context();
+    const got = await ctx.evaluate(
+      <Config options={[<ConfigOutFs mount={tmp} />]}>
+        <Incremental>
+          <Dir name="site">
+            <Dir name="sub" clean={false}>
+              <File name="a">a</File>
+              {old ? <File name="old">old</File> : ""}
+            </Dir>
+          </Dir>
+        </Incremental>
+      </Config>,
+    );
+    assertEquals(got, old ? "aold" : "a");
+  };
+
+  await build(true);
+  await build(false);
+  assertEquals(
+    [...Deno.readDirSync(join(tmp, "site", "sub"))].map((entry) => entry.name),
+    ["a"],
+  );
+  cleanup(tmp);
+});
+
+Deno.test("path algebra", () => {
+  const p = parseOutFsPath;
+  const r = (path: OutFsPath) => renderOutFsPath(path);
+
+  assertEquals(p("foo/bar"), relativeOutFsPath(["foo", "bar"]));
+  assertEquals(p("/foo/bar"), absoluteOutFsPath(["foo", "bar"]));
+  assertEquals(
+    p("../../foo/bar.html"),
+    relativeOutFsPath(["foo", "bar.html"], 2),
+  );
+  assertEquals(p("./foo/../bar/"), relativeOutFsPath(["bar"]));
+  assertEquals(p("/../foo"), absoluteOutFsPath(["foo"]));
+  assertEquals(p("."), relativeOutFsPath([]));
+  for (const s of ["foo/bar", "/foo", "/", "../..", "../x", "."]) {
+    assertEquals(r(p(s)), s);
+  }
+
+  assertEquals(r(joinOutFsPath(p("/foo/bar"), p("../baz"))), "/foo/baz");
+  assertEquals(r(joinOutFsPath(p("foo"), p("../../baz"))), "../baz");
+  assertEquals(r(joinOutFsPath(p("foo"), p("/baz"))), "/baz");
+
+  assertEquals(r(parentOutFsPath(p("foo/bar"))), "foo");
+  assertEquals(r(parentOutFsPath(p(".."))), "../..");
+  assertEquals(r(parentOutFsPath(p("/"))), "/");
+
+  assertEquals(basenameOutFsPath(p("/foo/bar.html")), "bar.html");
+  assertEquals(basenameOutFsPath(p("..")), null);
+  assertEquals(extensionOutFsPath(p("/foo/bar.tar.gz")), ".gz");
+  assertEquals(extensionOutFsPath(p("/foo/.gitignore")), "");
+  assertEquals(extensionOutFsPath(p("/foo/bar")), "");
+  assertEquals(
+    r(changeExtensionOutFsPath(p("/foo/index.md"), ".html")),
+    "/foo/index.html",
+  );
+  assertEquals(
+    r(changeExtensionOutFsPath(p("foo/bar"), ".txt")),
+    "foo/bar.txt",
+  );
+
+  assertEquals(equalsOutFsPath(p("/foo/./bar"), p("/foo/bar/")), true);
+  assertEquals(equalsOutFsPath(p("foo"), p("/foo")), false);
+  assertEquals(isAncestorOutFsPath(p("/foo"), p("/foo/bar/baz")), true);
+  assertEquals(isAncestorOutFsPath(p("/foo"), p("/foo")), false);
+  assertEquals(isAncestorOutFsPath(p("/foo"), p("/foobar")), false);
+  assertEquals(isAncestorOutFsPath(p("foo"), p("/foo/bar")), false);
+});
+
+Deno.test("invalid names", async () => {
+  for (const name of ["", ".", "..", "a/b"]) {
+    const ctx = new Context();
+    const got = await ctx.evaluate(
+      <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+        <File name={name}>x</File>
+      </Config>,
+    );
+    assertEquals(got, null);
+    assertEquals(didWarnOrWorse(ctx), true);
+  }
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <Cd path={relativeOutFsPath(["..", "foo"])} create />
+    </Config>,
+  );
+  assertEquals(got, null);
+  assertEquals(didWarnOrWorse(ctx), true);
+});
+
+Deno.test("portability warnings", async () => {
+  for (
+    const [a, b] of [["a", "A"], ["CON.txt", "b"], ["a?", "b"], ["a.", "b"]]
+  ) {
+    const ctx = new Context();
+    const got = await ctx.evaluate(
+      <Config
+        options={[
+          <ConfigOutFs backend={createMemoryBackend()} portability />,
+        ]}
+      >
+        <File name={a}>x</File>
+        <File name={b}>y</File>
+      </Config>,
+    );
+    assertEquals(got, "xy");
+    assertEquals(didWarnOrWorse(ctx), true);
+  }
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config
+      options={[<ConfigOutFs backend={createMemoryBackend()} portability />]}
+    >
+      <File name="a">x</File>
+      <File name="b">y</File>
+    </Config>,
+  );
+  assertEquals(got, "xy");
+  assertEquals(didWarnOrWorse(ctx), false);
+});
+
+Deno.test("tree queries", async () => {
+  const show = (paths: OutFsPath[] | null) =>
+    paths === null ? "null" : paths.map(renderOutFsPath).join(",");
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <Dir name="blog">
+        <File name="index.html">i</File>
+        <Dir name="2024">
+          <File name="post.html">p</File>
+          <File name="post.txt">t</File>
+        </Dir>
+      </Dir>
+      <impure
+        fun={(ctx) =>
+          [
+            show(outList(ctx, relativeOutFsPath(["blog"]))),
+            show(outList(ctx, relativeOutFsPath(["nope"]))),
+            show(outGlob(ctx, "blog/**/*.html")),
+            show(outGlob(ctx, "/*")),
+            `${outExists(ctx, parseOutFsPath("blog/index.html"))}`,
+            `${outExists(ctx, parseOutFsPath("blog/index.html"), "dir")}`,
+            `${outExists(ctx, parseOutFsPath("blog/2024"), "dir")}`,
+            `${outExists(ctx, parseOutFsPath("blog/nope"))}`,
+          ].join(";")}
+      />
+    </Config>,
+  );
+  assertEquals(
+    got,
+    "ipt" + [
+      "/blog/2024,/blog/index.html",
+      "null",
+      "/blog/2024/post.html,/blog/index.html",
+      "/blog",
+      "true",
+      "false",
+      "true",
+      "false",
+    ].join(";"),
+  );
+});
+
+Deno.test("directory indexes", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <Dir name="blog">
+        <File name="index.html">
+          <DirIndex
+            fun={(entries) =>
+              entries.map((entry) =>
+                `${renderOutFsPath(entry.path)}:${entry.kind}`
+              ).join(",")}
+          />
+        </File>
+        <File name="a.html">a</File>
+        <Dir name="sub" />
+      </Dir>
+    </Config>,
+  );
+  assertEquals(
+    got,
+    "/blog/a.html:file,/blog/index.html:file,/blog/sub:dir" + "a",
+  );
+  assertEquals(
+    (backend.root.get("blog") as MemoryDir).get("index.html"),
+    "/blog/a.html:file,/blog/index.html:file,/blog/sub:dir",
+  );
+});
+
+Deno.test("cd across several rounds of evaluation", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <Dir name="a">
+        <Dir name="b">
+          <Cd path={absoluteOutFsPath(["a"])}>
+            <AfterOutFs
+              fun={(ctx) => renderOutFsPath(outCwd(ctx))}
+            />
+          </Cd>
+        </Dir>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, "/a");
+});
+
+Deno.test("contributions", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <Dir name="a">
+        <Contribute name="styles.css">b</Contribute>
+        <Cd path={absoluteOutFsPath(["a"])}>
+          <Contribute name="styles.css" order={-1}>a</Contribute>
+        </Cd>
+        <Contribute name="styles.css">
+          <DirIndex fun={(entries) => `${entries.length}`} />
+        </Contribute>
+        <Contribute name="robots.txt" separator=";">x</Contribute>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, "");
+
+  assertEquals(
+    backend.root,
+    new Map([
+      [
+        "a",
+        new Map<string, MemoryNode>([
+          ["styles.css", "a\nb\n2"],
+          ["robots.txt", "x"],
+        ]),
+      ],
+    ]),
+  );
+});
+
+Deno.test("contributions collide with files", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <Contribute name="styles.css">a</Contribute>
+      <File name="styles.css">b</File>
+    </Config>,
+  );
+  assertEquals(got, null);
+  assertEquals(didWarnOrWorse(ctx), true);
+});
+
+Deno.test("contributions after writing", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <Contribute name="styles.css">a</Contribute>
+      <AfterOutFs
+        fun={() => <Contribute name="styles.css">b</Contribute>}
+      />
+    </Config>,
+  );
+  assertEquals(got, null);
+  assertEquals(didWarnOrWorse(ctx), true);
+  assertEquals(backend.root.get("styles.css"), "a");
+});
+
+Deno.test("hashed files", async () => {
+  const hash = createHash("sha256").update("x").digest("hex");
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <Dir name="a">
+        <File name="index.html">
+          <impure
+            fun={(ctx) => {
+              const actual = outHashedPath(
+                ctx,
+                relativeOutFsPath(["assets", "app.js"]),
+              );
+              return actual === null ? null : outHref(ctx, actual);
+            }}
+          />
+        </File>
+        <Dir name="assets">
+          <HashedFile name="app.js">x</HashedFile>
+          <HashedFile name="b.css" pattern="[hash]-[name][ext]" hashLength={4}>
+            x
+          </HashedFile>
+        </Dir>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, `assets/app.${hash.slice(0, 8)}.jsxx`);
+
+  assertEquals(
+    backend.root,
+    new Map([
+      [
+        "a",
+        new Map<string, MemoryNode>([
+          ["index.html", `assets/app.${hash.slice(0, 8)}.js`],
+          [
+            "assets",
+            new Map([
+              [`app.${hash.slice(0, 8)}.js`, "x"],
+              [`${hash.slice(0, 4)}-b.css`, "x"],
+            ]),
+          ],
+        ]),
+      ],
+    ]),
+  );
+});
+
+Deno.test("transactions", async () => {
+  const tmp = Deno.makeTempDirSync();
+  const mount = join(tmp, "dist");
+
+  const ctx1 = new Context();
+  const got1 = await ctx1.evaluate(
+    <Config options={[<ConfigOutFs mount={mount} />]}>
+      <Transaction>
+        <Dir name="a">
+          <File name="b">x</File>
+        </Dir>
+      </Transaction>
+    </Config>,
+  );
+  assertEquals(got1, "x");
+  assertEquals(Deno.readTextFileSync(join(mount, "a", "b")), "x");
+
+  // A halting build leaves the prior build untouched.
+  const ctx2 = new Context();
+  const got2 = await ctx2.evaluate(
+    <Config options={[<ConfigOutFs mount={mount} />]}>
+      <Transaction>
+        <Dir name="a">
+          <File name="b">y</File>
+          <File name="b">z</File>
+        </Dir>
+      </Transaction>
+    </Config>,
+  );
+  assertEquals(got2, null);
+  assertEquals(Deno.readTextFileSync(join(mount, "a", "b")), "x");
+
+  // The next successful build replaces the prior build.
+  const ctx3 = new Context();
+  const got3 = await ctx3.evaluate(
+    <Config options={[<ConfigOutFs mount={mount} />]}>
+      <Transaction>
+        <Dir name="c">
+          <File name="d">y</File>
+        </Dir>
+      </Transaction>
+    </Config>,
+  );
+  assertEquals(got3, "y");
+  assertFsNode(mount, [{ name: "c", node: [{ name: "d", node: "y" }] }]);
+  assertEquals(
+    [...Deno.readDirSync(tmp)].map((entry) => entry.name),
+    [],
+  );
+  cleanup(tmp);
+});
+
+Deno.test("transactions wait for enclosing checks", async () => {
+  const tmp = Deno.makeTempDirSync();
+  const mount = join(tmp, "dist");
+  Deno.mkdirSync(mount);
+  Deno.writeTextFileSync(join(mount, "a"), "x");
+
+  const build = async (collide: boolean) => {
+    const ctx = new Context();
+    return await ctx.evaluate(
+      <Config options={[<ConfigOutFs mount={mount} />]}>
+        <CollectCollisions>
+          <Transaction>
+            <File name="a">y</File>
+          </Transaction>
+          {collide ? <File name="a">z</File> : ""}
+        </CollectCollisions>
+      </Config>,
+    );
+  };
+
+  // The collision halts only after the transaction's children are done.
+  assertEquals(await build(true), null);
+  assertEquals(Deno.readTextFileSync(join(mount, "a")), "x");
+
+  assertEquals(await build(false), "y");
+  assertEquals(Deno.readTextFileSync(join(mount, "a")), "y");
+  cleanup(tmp);
+});
+
+Deno.test("transactions recover from an interrupted swap", async () => {
+  const tmp = Deno.makeTempDirSync();
+  const mount = join(tmp, "dist");
+  Deno.mkdirSync(`${mount}.outfs-backup`);
+  Deno.writeTextFileSync(join(`${mount}.outfs-backup`, "a"), "x");
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs mount={mount} />]}>
+      <Transaction>
+        <File name="b">y</File>
+      </Transaction>
+    </Config>,
+  );
+  assertEquals(got, "y");
+  assertFsNode(mount, [{ name: "a", node: "x" }, { name: "b", node: "y" }]);
+  assertEquals(
+    [...Deno.readDirSync(tmp)].map((entry) => entry.name),
+    [],
+  );
+  cleanup(tmp);
+});
+
+Deno.test("transactions require the disk backend", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <Transaction>
+        <File name="a">x</File>
+      </Transaction>
+    </Config>,
+  );
+  assertEquals(got, null);
+  assertEquals(backend.root.size, 0);
+});
+
+Deno.test("dry runs", async () => {
+  const backend = createMemoryBackend();
+  const ctx1 = new Context();
+  await ctx1.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <Dir name="a">
+        <File name="b">x</File>
+        <File name="c">y</File>
+        <File name="old">z</File>
+      </Dir>
+    </Config>,
+  );
+
+  let plan: OutFsPlan | null = null;
+  const ctx2 = new Context();
+  const got = await ctx2.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <DryRun onPlan={(p) => plan = p}>
+        <Dir name="a">
+          <File name="b">x</File>
+          <File name="c">changed</File>
+          <File name="d">new</File>
+        </Dir>
+      </DryRun>
+    </Config>,
+  );
+  assertEquals(got, "xchangednew");
+  assertEquals(plan, {
+    create: [absoluteOutFsPath(["a", "d"])],
+    overwrite: [absoluteOutFsPath(["a", "c"])],
+    unchanged: [absoluteOutFsPath(["a", "b"])],
+    delete: [absoluteOutFsPath(["a", "old"])],
+  });
+
+  // The backend is untouched.
+  assertEquals(
+    backend.root,
+    new Map([
+      [
+        "a",
+        new Map<string, MemoryNode>([["b", "x"], ["c", "y"], ["old", "z"]]),
+      ],
+    ]),
+  );
+});
+
+Deno.test("dry runs do not write to the disk", async () => {
+  const tmp = Deno.makeTempDirSync();
+  const mount = join(tmp, "dist");
+  Deno.mkdirSync(mount);
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs mount={mount} />]}>
+      <DryRun onPlan={() => {}}>
+        <Transaction>
+          <File name="a">x</File>
+        </Transaction>
+        <Manifest dest={join(tmp, "manifest.json")}>
+          <File name="b">y</File>
+        </Manifest>
+        <Archive dest={join(tmp, "c.tar")}>
+          <File name="d">z</File>
+        </Archive>
+      </DryRun>
+    </Config>,
+  );
+  assertEquals(got, "xyz");
+  assertEquals(
+    [...Deno.readDirSync(tmp)].map((entry) => entry.name),
+    ["dist"],
+  );
+  assertEquals([...Deno.readDirSync(mount)], []);
+  cleanup(tmp);
+});
+
+Deno.test("precompressed siblings", async () => {
+  const backend = createMemoryBackend();
+  const long = "<p>Hello, world!</p>".repeat(100);
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config
+      options={[
+        <ConfigOutFs
+          backend={backend}
+          precompress={{ brotli: false, minSize: 100 }}
+        />,
+      ]}
+    >
+      <Dir name="a">
+        <File name="long.html">{long}</File>
+        <File name="short.html">x</File>
+        <File name="long.png">{long}</File>
+        <File name="both.html" precompress={{ minSize: 0 }}>x</File>
+        <File name="none.html" precompress={null}>{long}</File>
+        <Contribute name="styles.css">{long}</Contribute>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, `${long}x${long}x${long}`);
+
+  const dir = backend.root.get("a") as MemoryDir;
+  assertEquals(
+    [...dir.keys()].sort(),
+    [
+      "both.html",
+      "both.html.br",
+      "both.html.gz",
+      "long.html",
+      "long.html.gz",
+      "long.png",
+      "none.html",
+      "short.html",
+      "styles.css",
+      "styles.css.gz",
+    ],
+  );
+  assertEquals(
+    new TextDecoder().decode(
+      gunzipSync(dir.get("long.html.gz") as Uint8Array),
+    ),
+    long,
+  );
+  assertEquals(
+    new TextDecoder().decode(
+      brotliDecompressSync(dir.get("both.html.br") as Uint8Array),
+    ),
+    "x",
+  );
+});
+
+Deno.test("precompressed siblings collide", async () => {
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <File name="a.html" precompress={{ minSize: 0 }}>x</File>
+      <File name="a.html.gz">y</File>
+    </Config>,
+  );
+  assertEquals(got, null);
+});
+
+Deno.test("archives", async () => {
+  const tmp = Deno.makeTempDirSync();
+
+  const build = async (dest: string) => {
+    const ctx = new Context();
+    return await ctx.evaluate(
+      <Archive dest={dest} mtime={1700000000}>
+        <Dir name="a">
+          <File name="b">x</File>
+        </Dir>
+      </Archive>,
+    );
+  };
+
+  assertEquals(await build(join(tmp, "1.tar")), "x");
+  assertEquals(await build(join(tmp, "2.tar")), "x");
+  assertEquals(await build(join(tmp, "3.tar.gz")), "x");
+  assertEquals(await build(join(tmp, "4.zip")), "x");
+  assertEquals(await build(join(tmp, "5.zip")), "x");
+
+  // Nothing but the archives was written.
+  assertEquals(
+    [...Deno.readDirSync(tmp)].map((entry) => entry.name).sort(),
+    ["1.tar", "2.tar", "3.tar.gz", "4.zip", "5.zip"],
+  );
+
+  // Archives are reproducible.
+  const tar = Deno.readFileSync(join(tmp, "1.tar"));
+  assertEquals(Deno.readFileSync(join(tmp, "2.tar")), tar);
+  assertEquals(
+    new Uint8Array(gunzipSync(Deno.readFileSync(join(tmp, "3.tar.gz")))),
+    tar,
+  );
+  const zip = Deno.readFileSync(join(tmp, "4.zip"));
+  assertEquals(Deno.readFileSync(join(tmp, "5.zip")), zip);
+
+  // A directory header, a file header, the file contents, two end blocks.
+  const decoder = new TextDecoder();
+  assertEquals(tar.length, 4 * 512);
+  assertEquals(decoder.decode(tar.slice(0, 2)), "a/");
+  assertEquals(decoder.decode(tar.slice(512, 515)), "a/b");
+  assertEquals(decoder.decode(tar.slice(1024, 1025)), "x");
+  assertEquals(decoder.decode(zip.slice(30, 32)), "a/");
+
+  cleanup(tmp);
+});
+
+Deno.test("zip archives without zip64", () => {
+  const entry = (
+    path: string,
+    kind: OutFsNodeKind,
+    contents = new Uint8Array(),
+  ): ArchiveEntry => ({ path, kind, contents, permissions: 0o644, mtime: 0 });
+
+  // Directories, so that nothing needs to be compressed.
+  const entries: ArchiveEntry[] = [];
+  for (let i = 0; i < 65535; i++) {
+    entries.push(entry(`${i}`, "dir"));
+  }
+  assertEquals(zipArchive(entries) === null, false);
+  entries.push(entry("65535", "dir"));
+  assertEquals(zipArchive(entries), null);
+
+  // Stands in for 4 GiB of contents, which are never read.
+  const huge = { length: 2 ** 32 } as Uint8Array;
+  assertEquals(zipArchive([entry("huge", "file", huge)]), null);
+});
+
+Deno.test("permissions and mtimes", async () => {
+  const tmp = Deno.makeTempDirSync();
+  const epoch = new Date(1700000000 * 1000);
+  const later = new Date(1800000000 * 1000);
+
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs mount={tmp} mtime={epoch} />]}>
+      <Dir name="a">
+        <File name="run.sh" permissions={0o755}>x</File>
+        <File name="later" mtime={later}>y</File>
+        <Dir name="b" mtime={later}>
+          <File name="c">z</File>
+        </Dir>
+      </Dir>
+      <Cd path={relativeOutFsPath(["d", "e"])} create>
+        <File name="f">w</File>
+      </Cd>
+    </Config>,
+  );
+  assertEquals(got, "xyzw");
+
+  const mtime = (path: string[]) => Deno.statSync(join(tmp, ...path)).mtime;
+  assertEquals(mtime(["a"]), epoch);
+  assertEquals(mtime(["a", "run.sh"]), epoch);
+  assertEquals(mtime(["a", "later"]), later);
+  assertEquals(mtime(["a", "b"]), later);
+  assertEquals(mtime(["a", "b", "c"]), epoch);
+  assertEquals(mtime(["d"]), epoch);
+  assertEquals(mtime(["d", "e"]), epoch);
+  if (Deno.build.os !== "windows") {
+    assertEquals(
+      Deno.statSync(join(tmp, "a", "run.sh")).mode! & 0o777,
+      0o755,
+    );
+  }
+
+  cleanup(tmp);
+});
+
+Deno.test("memory backends forget attributes of replaced nodes", async () => {
+  const backend = createMemoryBackend();
+
+  const build = async (permissions?: number) => {
+    const ctx = new Context();
+    return await ctx.evaluate(
+      <Config options={[<ConfigOutFs backend={backend} />]}>
+        <Dir name="a" permissions={permissions}>
+          <File name="b" permissions={permissions}>x</File>
+        </Dir>
+      </Config>,
+    );
+  };
+
+  assertEquals(await build(0o700), "x");
+  assertEquals(backend.attributes.get("/a/b")?.permissions, 0o700);
+
+  assertEquals(await build(), "x");
+  assertEquals(backend.attributes.size, 0);
+});
+
+Deno.test("defaults", async () => {
+  const backend = createMemoryBackend();
+  backend.root.set("a", new Map([["old", "z"]]));
+
+  // Explicit modes override the defaults.
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <Defaults mode="placid">
+        <Dir name="a">
+          <File name="d">x</File>
+          <File name="d" mode="timid">y</File>
+        </Dir>
+      </Defaults>
+    </Config>,
+  );
+  assertEquals(got, null);
+
+  const ctx2 = new Context();
+  const got2 = await ctx2.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <Defaults mode="placid" clean={false}>
+        <Dir name="a">
+          <File name="b">x</File>
+          <File name="b">y</File>
+          <Defaults mode="assertive">
+            <File name="c">x</File>
+            <File name="c">y</File>
+          </Defaults>
+        </Dir>
+      </Defaults>
+    </Config>,
+  );
+  assertEquals(got2, "xyxy");
+  assertEquals(
+    backend.root,
+    new Map([
+      [
+        "a",
+        new Map<string, MemoryNode>([
+          ["old", "z"],
+          ["b", "x"],
+          ["c", "y"],
+        ]),
+      ],
+    ]),
+  );
+});
+
+Deno.test("collecting collisions", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <CollectCollisions>
+        <File name="a">x</File>
+        <File name="a">y</File>
+        <Dir name="d" />
+        <Dir name="d" />
+        <File name="b">z</File>
+      </CollectCollisions>
+    </Config>,
+  );
+  assertEquals(got, null);
+
+  // Evaluation continued after the first collision.
+  assertEquals(
+    backend.root,
+    new Map<string, MemoryNode>([["a", "x"], ["d", new Map()], ["b", "z"]]),
+  );
+
+  const ctx2 = new Context();
+  const got2 = await ctx2.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <CollectCollisions>
+        <File name="a">x</File>
+        <File name="b">y</File>
+      </CollectCollisions>
+    </Config>,
+  );
+  assertEquals(got2, "xy");
+});
+
+Deno.test("collecting collisions of files and directories", async () => {
+  const backend = createMemoryBackend();
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={backend} />]}>
+      <CollectCollisions>
+        <File name="a">x</File>
+        <Dir name="a">
+          <File name="b">y</File>
+        </Dir>
+        <File name="c">z</File>
+      </CollectCollisions>
+    </Config>,
+  );
+  assertEquals(got, null);
+
+  // The file is kept, and the contents of the directory are skipped.
+  assertEquals(
+    backend.root,
+    new Map<string, MemoryNode>([["a", "x"], ["c", "z"]]),
+  );
+});
+
+Deno.test("hooks", async () => {
+  const events: Omit<OutFsNodeEvent, "source">[] = [];
+  const ctx = new Context();
+  const got = await ctx.evaluate(
+    <Config options={[<ConfigOutFs backend={createMemoryBackend()} />]}>
+      <impure
+        fun={(ctx) => {
+          outRegisterHook(ctx, ({ source: _, ...event }) => {
+            events.push(event);
+          });
+          return "";
+        }}
+      />
+      <Dir name="a">
+        <File name="b">x</File>
+        <File name="b" mode="placid">y</File>
+        <File name="b" mode="assertive">z</File>
+      </Dir>
+    </Config>,
+  );
+  assertEquals(got, "xyz");
+
+  // The order of the events depends on the order of evaluation.
+  const sorted = (es: typeof events) =>
+    [...es].sort((a, b) => JSON.stringify(a) < JSON.stringify(b) ? -1 : 1);
+  assertEquals(sorted(events), sorted([
+    {
+      event: "added",
+      path: absoluteOutFsPath(["a"]),
+      kind: "dir",
+      contents: null,
+    },
+    {
+      event: "skipped",
+      path: absoluteOutFsPath(["a", "b"]),
+      kind: "file",
+      contents: null,
+    },
+    {
+      event: "added",
+      path: absoluteOutFsPath(["a", "b"]),
+      kind: "file",
+      contents: "x",
+    },
+    {
+      event: "overwritten",
+      path: absoluteOutFsPath(["a", "b"]),
+      kind: "file",
+      contents: "z",
+    },
+  ]));
+});